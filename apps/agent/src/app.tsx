@@ -16,18 +16,34 @@ import { ToolInvocationCard } from "@/components/tool-invocation-card/ToolInvoca
 // Icon imports
 import {
   Bug,
+  FilePdf,
   Moon,
+  Paperclip,
   Robot,
   Sun,
   Trash,
   PaperPlaneTilt,
   Stop,
+  X,
 } from "@phosphor-icons/react";
 
+// Receipts the agent can store against an expense
+const ATTACHMENT_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+];
+// Attachments travel inside the chat message as data URLs, and the agent keeps
+// each message in a single SQLite row
+const MAX_ATTACHMENT_BYTES = 1.5 * 1024 * 1024;
+
 // List of tools that require human confirmation
 const toolsRequiringConfirmation: (keyof typeof tools)[] = [
   "getWeatherInformation",
   "createInvoice",
+  "logReceiptExpense",
 ];
 
 export default function Chat() {
@@ -38,7 +54,10 @@ export default function Chat() {
   });
   const [showDebug, setShowDebug] = useState(false);
   const [textareaHeight, setTextareaHeight] = useState("auto");
+  const [attachments, setAttachments] = useState<FileList | undefined>();
+  const [attachmentError, setAttachmentError] = useState<string>();
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const scrollToBottom = useCallback(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -102,6 +121,31 @@ export default function Chat() {
     )
   );
 
+  const selectAttachments = (files: FileList | null) => {
+    const invalid = Array.from(files ?? []).find(
+      (file) =>
+        !ATTACHMENT_TYPES.includes(file.type) ||
+        file.size > MAX_ATTACHMENT_BYTES
+    );
+
+    if (invalid) {
+      setAttachmentError(
+        `${invalid.name} is not an image or PDF under ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`
+      );
+      clearAttachments();
+      return;
+    }
+    setAttachmentError(undefined);
+    setAttachments(files?.length ? files : undefined);
+  };
+
+  const clearAttachments = () => {
+    setAttachments(undefined);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
   const formatTime = (date: Date) => {
     return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
   };
@@ -219,6 +263,26 @@ export default function Chat() {
                     )}
 
                     <div>
+                      {m.experimental_attachments?.map((attachment, i) => (
+                        <div
+                          // biome-ignore lint/suspicious/noArrayIndexKey: immutable index
+                          key={i}
+                          className={`mb-2 flex ${isUser ? "justify-end" : "justify-start"}`}
+                        >
+                          {attachment.contentType?.startsWith("image/") ? (
+                            <img
+                              src={attachment.url}
+                              alt={attachment.name ?? "Attachment"}
+                              className="max-h-48 rounded-md border border-neutral-300 dark:border-neutral-800"
+                            />
+                          ) : (
+                            <Card className="p-2 flex items-center gap-2 text-sm bg-neutral-100 dark:bg-neutral-900">
+                              <FilePdf size={16} />
+                              {attachment.name ?? "Attachment"}
+                            </Card>
+                          )}
+                        </div>
+                      ))}
                       <div>
                         {m.parts?.map((part, i) => {
                           if (part.type === "text") {
@@ -308,12 +372,55 @@ export default function Chat() {
                   hello: "world",
                 },
               },
+              experimental_attachments: attachments,
+              allowEmptySubmit: !!attachments,
             });
+            clearAttachments();
             setTextareaHeight("auto"); // Reset height after submission
           }}
           className="p-3 bg-neutral-50 absolute bottom-0 left-0 right-0 z-10 border-t border-neutral-300 dark:border-neutral-800 dark:bg-neutral-900"
         >
+          {(attachments || attachmentError) && (
+            <div className="mb-2 flex flex-wrap items-center gap-2 text-xs">
+              {attachmentError && (
+                <span className="text-red-600 dark:text-red-400">
+                  {attachmentError}
+                </span>
+              )}
+              {Array.from(attachments ?? []).map((file) => (
+                <span
+                  key={file.name}
+                  className="flex items-center gap-1 rounded-full border border-neutral-300 dark:border-neutral-700 px-2 py-1"
+                >
+                  {file.type === "application/pdf" ? (
+                    <FilePdf size={12} />
+                  ) : (
+                    <Paperclip size={12} />
+                  )}
+                  {file.name}
+                </span>
+              ))}
+              {attachments && (
+                <button
+                  type="button"
+                  onClick={clearAttachments}
+                  className="cursor-pointer text-muted-foreground"
+                  aria-label="Remove attachments"
+                >
+                  <X size={12} />
+                </button>
+              )}
+            </div>
+          )}
           <div className="flex items-center gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ATTACHMENT_TYPES.join(",")}
+              multiple
+              hidden
+              onChange={(e) => selectAttachments(e.target.files)}
+            />
             <div className="flex-1 relative">
               <Textarea
                 disabled={pendingToolCallConfirmation}
@@ -338,14 +445,27 @@ export default function Chat() {
                     !e.nativeEvent.isComposing
                   ) {
                     e.preventDefault();
-                    handleAgentSubmit(e as unknown as React.FormEvent);
+                    handleAgentSubmit(e as unknown as React.FormEvent, {
+                      experimental_attachments: attachments,
+                      allowEmptySubmit: !!attachments,
+                    });
+                    clearAttachments();
                     setTextareaHeight("auto"); // Reset height on Enter submission
                   }
                 }}
                 rows={2}
                 style={{ height: textareaHeight }}
               />
-              <div className="absolute bottom-0 right-0 p-2 w-fit flex flex-row justify-end">
+              <div className="absolute bottom-0 right-0 p-2 w-fit flex flex-row justify-end gap-1">
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={pendingToolCallConfirmation}
+                  className="inline-flex items-center cursor-pointer justify-center rounded-full p-1.5 h-fit text-muted-foreground hover:bg-neutral-200 dark:hover:bg-neutral-800 disabled:pointer-events-none disabled:opacity-50 [&_svg]:size-4"
+                  aria-label="Attach a receipt"
+                >
+                  <Paperclip size={16} />
+                </button>
                 {isLoading ? (
                   <button
                     type="button"
@@ -359,7 +479,10 @@ export default function Chat() {
                   <button
                     type="submit"
                     className="inline-flex items-center cursor-pointer justify-center gap-2 whitespace-nowrap text-sm font-medium ring-offset-background transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 [&_svg]:pointer-events-none [&_svg]:size-4 [&_svg]:shrink-0 bg-primary text-primary-foreground hover:bg-primary/90 rounded-full p-1.5 h-fit border border-neutral-200 dark:border-neutral-800"
-                    disabled={pendingToolCallConfirmation || !agentInput.trim()}
+                    disabled={
+                      pendingToolCallConfirmation ||
+                      (!agentInput.trim() && !attachments)
+                    }
                     aria-label="Send message"
                   >
                     <PaperPlaneTilt size={16} />
@@ -0,0 +1,331 @@
+import { useState } from "react";
+import { Button } from "@/components/button/Button";
+import { Input } from "@/components/input/Input";
+import { Label } from "@/components/label/Label";
+import { Card } from "@/components/card/Card";
+import {
+  Calendar,
+  CurrencyDollar,
+  Receipt,
+  Storefront,
+  Tag,
+} from "@phosphor-icons/react";
+
+export interface ReceiptFormData {
+  merchant: string;
+  total: number;
+  currency: string;
+  date: string | null;
+  category: string;
+  lineItems: Array<{
+    description: string;
+    quantity: number | null;
+    amount: number;
+  }>;
+  tax: number | null;
+}
+
+export interface ReceiptFormProps {
+  onSubmit: (data: ReceiptFormData) => void;
+  onCancel: () => void;
+  initialData: ReceiptFormData;
+}
+
+export const ReceiptForm = ({
+  onSubmit,
+  onCancel,
+  initialData,
+}: ReceiptFormProps) => {
+  const [merchant, setMerchant] = useState(initialData.merchant || "");
+  const [total, setTotal] = useState(initialData.total?.toString() || "");
+  const [currency, setCurrency] = useState(initialData.currency || "");
+  const [date, setDate] = useState(initialData.date || "");
+  const [category, setCategory] = useState(initialData.category || "");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const [errors, setErrors] = useState({
+    merchant: false,
+    total: false,
+    currency: false,
+    category: false,
+  });
+
+  const validateForm = () => {
+    const newErrors = {
+      merchant: !merchant.trim(),
+      total: !total.trim() || Number.isNaN(Number(total)) || Number(total) <= 0,
+      currency: !/^[A-Za-z]{3}$/.test(currency.trim()),
+      category: !category.trim(),
+    };
+    setErrors(newErrors);
+    return !Object.values(newErrors).some(Boolean);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      onSubmit({
+        ...initialData,
+        merchant: merchant.trim(),
+        total: Number(total),
+        currency: currency.trim().toUpperCase(),
+        date: date || null,
+        category: category.trim(),
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const fieldClassName = (invalid: boolean, value: string) =>
+    `transition-all duration-200 ${invalid ? "border-red-500 focus:border-red-500" : "focus:border-blue-500"} ${value && !invalid ? "border-green-500" : ""}`;
+
+  const fieldError = (message: string) => (
+    <p className="text-xs text-red-500 flex items-center gap-1">
+      <span className="w-3 h-3 rounded-full bg-red-500 text-white text-[10px] flex items-center justify-center">
+        !
+      </span>
+      {message}
+    </p>
+  );
+
+  return (
+    <Card className="max-w-2xl mx-auto shadow-lg border-0 bg-white dark:bg-neutral-900">
+      <div className="p-6 space-y-6">
+        {/* Header Section */}
+        <div className="text-center border-b border-neutral-200 dark:border-neutral-700 pb-6">
+          <div className="flex justify-center mb-4">
+            <div className="bg-gradient-to-br from-blue-500 to-indigo-600 p-3 rounded-full shadow-lg">
+              <Receipt className="w-8 h-8 text-white" weight="bold" />
+            </div>
+          </div>
+          <h2 className="text-2xl font-bold text-neutral-900 dark:text-neutral-100 mb-2">
+            Log Receipt
+          </h2>
+          <p className="text-sm text-neutral-600 dark:text-neutral-400">
+            Check the details read from your receipt before saving the expense
+          </p>
+        </div>
+
+        {/* Action Buttons */}
+        <div className="flex justify-end gap-3">
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={onCancel}
+            disabled={isSubmitting}
+            size="sm"
+            className="px-6"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            variant="primary"
+            loading={isSubmitting}
+            disabled={isSubmitting}
+            size="sm"
+            onClick={handleSubmit}
+            className="px-6 bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700"
+          >
+            {isSubmitting ? "Saving..." : "Save Expense"}
+          </Button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Total and Currency Row */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label
+                htmlFor="receipt-total"
+                title="Total"
+                className="flex items-center gap-2 text-sm font-semibold text-neutral-700 dark:text-neutral-300"
+              >
+                <CurrencyDollar
+                  className="w-4 h-4 text-green-600"
+                  weight="bold"
+                />
+                Total
+              </Label>
+              <Input
+                id="receipt-total"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="0.00"
+                onValueChange={(value) => {
+                  setTotal(value);
+                  if (
+                    errors.total &&
+                    value.trim() &&
+                    !Number.isNaN(Number(value)) &&
+                    Number(value) > 0
+                  ) {
+                    setErrors((prev) => ({ ...prev, total: false }));
+                  }
+                }}
+                initialValue={total}
+                isValid={!errors.total}
+                size="sm"
+                className={fieldClassName(errors.total, total)}
+              />
+              {errors.total &&
+                fieldError(
+                  !total.trim()
+                    ? "Total is required"
+                    : "Please enter a valid total"
+                )}
+            </div>
+
+            <div className="space-y-2">
+              <Label
+                htmlFor="receipt-currency"
+                title="Currency"
+                className="flex items-center gap-2 text-sm font-semibold text-neutral-700 dark:text-neutral-300"
+              >
+                <CurrencyDollar
+                  className="w-4 h-4 text-green-600"
+                  weight="bold"
+                />
+                Currency
+              </Label>
+              <Input
+                id="receipt-currency"
+                placeholder="e.g., USD"
+                onValueChange={(value) => {
+                  setCurrency(value);
+                  if (errors.currency && /^[A-Za-z]{3}$/.test(value.trim())) {
+                    setErrors((prev) => ({ ...prev, currency: false }));
+                  }
+                }}
+                initialValue={currency}
+                isValid={!errors.currency}
+                size="sm"
+                className={fieldClassName(errors.currency, currency)}
+              />
+              {errors.currency &&
+                fieldError("Please enter a three-letter currency code")}
+            </div>
+          </div>
+
+          {/* Merchant and Date Row */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label
+                htmlFor="receipt-merchant"
+                title="Merchant"
+                className="flex items-center gap-2 text-sm font-semibold text-neutral-700 dark:text-neutral-300"
+              >
+                <Storefront className="w-4 h-4 text-blue-600" weight="bold" />
+                Merchant
+              </Label>
+              <Input
+                id="receipt-merchant"
+                placeholder="e.g., Corner Cafe"
+                onValueChange={(value) => {
+                  setMerchant(value);
+                  if (errors.merchant && value.trim()) {
+                    setErrors((prev) => ({ ...prev, merchant: false }));
+                  }
+                }}
+                initialValue={merchant}
+                isValid={!errors.merchant}
+                size="sm"
+                className={fieldClassName(errors.merchant, merchant)}
+              />
+              {errors.merchant && fieldError("Merchant is required")}
+            </div>
+
+            <div className="space-y-2">
+              <Label
+                htmlFor="receipt-date"
+                title="Date"
+                className="flex items-center gap-2 text-sm font-semibold text-neutral-700 dark:text-neutral-300"
+              >
+                <Calendar className="w-4 h-4 text-blue-600" weight="bold" />
+                Date
+              </Label>
+              <Input
+                id="receipt-date"
+                type="date"
+                onValueChange={(value) => setDate(value)}
+                initialValue={date}
+                size="sm"
+                className={fieldClassName(false, date)}
+              />
+              <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-1">
+                Leave empty to use today's date
+              </p>
+            </div>
+          </div>
+
+          {/* Category Field */}
+          <div className="space-y-2">
+            <Label
+              htmlFor="receipt-category"
+              title="Category"
+              className="flex items-center gap-2 text-sm font-semibold text-neutral-700 dark:text-neutral-300"
+            >
+              <Tag className="w-4 h-4 text-purple-600" weight="bold" />
+              Category
+            </Label>
+            <Input
+              id="receipt-category"
+              placeholder="e.g., Food"
+              onValueChange={(value) => {
+                setCategory(value);
+                if (errors.category && value.trim()) {
+                  setErrors((prev) => ({ ...prev, category: false }));
+                }
+              }}
+              initialValue={category}
+              isValid={!errors.category}
+              size="sm"
+              className={fieldClassName(errors.category, category)}
+            />
+            {errors.category && fieldError("Category is required")}
+          </div>
+
+          {/* Line items and tax, saved to the expense notes */}
+          {(initialData.lineItems.length > 0 || initialData.tax !== null) && (
+            <div className="space-y-2 text-sm">
+              <span className="text-sm font-semibold text-neutral-700 dark:text-neutral-300">
+                Items
+              </span>
+              <ul className="divide-y divide-neutral-200 dark:divide-neutral-700">
+                {initialData.lineItems.map((item, index) => (
+                  <li
+                    // biome-ignore lint/suspicious/noArrayIndexKey: items are static
+                    key={index}
+                    className="flex justify-between py-1 text-neutral-700 dark:text-neutral-300"
+                  >
+                    <span>
+                      {item.quantity ? `${item.quantity} × ` : ""}
+                      {item.description}
+                    </span>
+                    <span>{item.amount.toFixed(2)}</span>
+                  </li>
+                ))}
+                {initialData.tax !== null && (
+                  <li className="flex justify-between py-1 text-neutral-500 dark:text-neutral-400">
+                    <span>Tax</span>
+                    <span>{initialData.tax.toFixed(2)}</span>
+                  </li>
+                )}
+              </ul>
+              <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                Items and tax are saved in the expense notes
+              </p>
+            </div>
+          )}
+        </form>
+      </div>
+    </Card>
+  );
+};
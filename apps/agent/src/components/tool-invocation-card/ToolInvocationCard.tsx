@@ -1,9 +1,14 @@
 import { useState } from "react";
 import { Robot, CaretDown } from "@phosphor-icons/react";
+import { formatAmount } from "@cf-hackathon/money";
 import { Button } from "@/components/button/Button";
 import { Card } from "@/components/card/Card";
 import { Tooltip } from "@/components/tooltip/Tooltip";
 import { InvoiceForm } from "@/components/invoice-form/InvoiceForm";
+import {
+  ReceiptForm,
+  type ReceiptFormData,
+} from "@/components/receipt-form/ReceiptForm";
 import { APPROVAL } from "@/shared";
 
 interface ToolInvocation {
@@ -68,7 +73,9 @@ export function ToolInvocationCard({
           />
         </div>
       );
-    } else if (toolInvocation.state === "result") {
+    }
+
+    if (toolInvocation.state === "result") {
       // Show completed invoice tile
       return (
         <div className="my-3 w-full max-w-2xl">
@@ -90,7 +97,7 @@ export function ToolInvocationCard({
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <span className="text-xs font-medium text-green-700 dark:text-green-300 block">Price</span>
-                  <span className="text-lg font-bold text-green-800 dark:text-green-200">${(toolInvocation.args.price as number).toFixed(2)}</span>
+                  <span className="text-lg font-bold text-green-800 dark:text-green-200">{formatAmount(toolInvocation.args.price as number, "USD")}</span>
                 </div>
                 
                 <div>
@@ -111,6 +118,69 @@ export function ToolInvocationCard({
     }
   }
 
+  // For logReceiptExpense tool, render the prefilled receipt form the same way
+  if (toolInvocation.toolName === "logReceiptExpense" && needsConfirmation) {
+    const receipt = toolInvocation.args as unknown as ReceiptFormData;
+
+    if (toolInvocation.state === "call") {
+      return (
+        <div className="my-3 w-full max-w-2xl">
+          <ReceiptForm
+            initialData={receipt}
+            onSubmit={(formData) => {
+              // Store the corrected details in the tool invocation args
+              toolInvocation.args = { ...formData };
+
+              addToolResult({
+                toolCallId,
+                result: APPROVAL.YES,
+              });
+            }}
+            onCancel={() =>
+              addToolResult({
+                toolCallId,
+                result: APPROVAL.NO,
+              })
+            }
+          />
+        </div>
+      );
+    }
+
+    if (toolInvocation.state === "result") {
+      const result = toolInvocation.result as unknown;
+      // Until the server has run the tool, the result is the user's answer
+      const pending = result === APPROVAL.YES;
+      const failed =
+        result === APPROVAL.NO ||
+        (typeof result === "string" && result.startsWith("Error"));
+
+      return (
+        <div className="my-3 w-full max-w-2xl">
+          <Card className={`p-4 ${failed ? "bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800" : "bg-gradient-to-br from-green-50 to-emerald-50 dark:from-green-900/20 dark:to-emerald-900/20 border-green-200 dark:border-green-800"}`}>
+            <div className="flex items-center justify-between">
+              <h3 className={`text-base font-semibold ${failed ? "text-red-800 dark:text-red-200" : "text-green-800 dark:text-green-200"}`}>
+                {pending ? "Saving Receipt..." : failed ? "Receipt Not Logged" : "Receipt Logged"}
+              </h3>
+              <span className={`text-xs ${failed ? "text-red-600 dark:text-red-400" : "text-green-600 dark:text-green-400"}`}>
+                {receipt.total.toFixed(2)} {receipt.currency}
+              </span>
+            </div>
+            <div className="mt-3 space-y-1 text-sm text-neutral-800 dark:text-neutral-200">
+              <div>
+                {receipt.merchant} · {receipt.category}
+                {receipt.date ? ` · ${receipt.date}` : ""}
+              </div>
+              {typeof result === "string" && !pending && (
+                <div className="text-xs text-neutral-600 dark:text-neutral-400">{result}</div>
+              )}
+            </div>
+          </Card>
+        </div>
+      );
+    }
+  }
+
   return (
     <Card
       className={`p-4 my-3 w-full max-w-[500px] rounded-md bg-neutral-100 dark:bg-neutral-900 ${
@@ -0,0 +1,94 @@
+/**
+ * Receipt handling for the chat agent: finding the files the user attached
+ * to the conversation and reading expense details out of receipt photos
+ */
+import type { Message } from "@ai-sdk/ui-utils";
+import { generateObject, type LanguageModel } from "ai";
+import { z } from "zod";
+
+type Attachment = NonNullable<Message["experimental_attachments"]>[number];
+
+/**
+ * Details read from a receipt. Amounts are in the receipt's currency, and
+ * fields the receipt doesn't show are null rather than guessed.
+ */
+export const receiptDetailsSchema = z.object({
+  merchant: z.string().describe("Name of the shop, restaurant or company"),
+  total: z.number().describe("Total amount paid, including tax"),
+  currency: z
+    .string()
+    .length(3)
+    .describe("ISO 4217 code of the currency the receipt is in, e.g. USD"),
+  date: z
+    .string()
+    .nullable()
+    .describe("Date of purchase as YYYY-MM-DD, null if it isn't printed"),
+  lineItems: z
+    .array(
+      z.object({
+        description: z.string().describe("Item as printed on the receipt"),
+        quantity: z.number().nullable().describe("Quantity, if printed"),
+        amount: z.number().describe("Line total"),
+      })
+    )
+    .describe("Individual items on the receipt, empty if none are listed"),
+  tax: z
+    .number()
+    .nullable()
+    .describe("Total tax (VAT, sales tax), null if it isn't shown"),
+});
+
+export type ReceiptDetails = z.infer<typeof receiptDetailsSchema>;
+
+// Chat attachments arrive as base64 data URLs
+export function dataUrlToBytes(url: string) {
+  const base64 = url.slice(url.indexOf(",") + 1);
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+/**
+ * Returns the most recent attachment the user sent whose content type
+ * passes `accept`, or undefined if there is none
+ */
+export function findLatestAttachment(
+  messages: Message[],
+  accept: (contentType: string) => boolean
+): Attachment | undefined {
+  return messages
+    .flatMap((message) =>
+      message.role === "user" ? (message.experimental_attachments ?? []) : []
+    )
+    .filter(({ contentType }) => !!contentType && accept(contentType))
+    .pop();
+}
+
+/**
+ * Asks the model to read a receipt image and returns its details, validated
+ * against `receiptDetailsSchema`
+ */
+export async function extractReceiptDetails(
+  model: LanguageModel,
+  image: Attachment
+): Promise<ReceiptDetails> {
+  const { object } = await generateObject({
+    model,
+    schema: receiptDetailsSchema,
+    messages: [
+      {
+        role: "user",
+        content: [
+          {
+            type: "text",
+            text: "Read this receipt and extract the merchant, total, currency, date of purchase, line items and tax. Use null for anything the receipt doesn't show.",
+          },
+          {
+            type: "image",
+            image: dataUrlToBytes(image.url),
+            mimeType: image.contentType,
+          },
+        ],
+      },
+    ],
+  });
+  return object;
+}
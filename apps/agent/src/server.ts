@@ -14,10 +14,24 @@ import {
 //import {anthropic} from "@ai-sdk/anthropic";
 import { google } from "@ai-sdk/google";
 import { processToolCalls } from "./utils";
-import { tools, executions } from "./tools";
+import { tools, executions, MCP_CALLBACK_HOST } from "./tools";
+import {
+  dataUrlToBytes,
+  extractReceiptDetails,
+  findLatestAttachment,
+} from "./receipts";
 // import { env } from "cloudflare:workers";
 import { fiberplane, withInstrumentation } from "@fiberplane/agents";
 
+// Name the expense backend is registered under in the agent's MCP servers
+const EXPENSES_MCP_SERVER = "expenses";
+
+// A budget check that finds the expense server disconnected, as it can be
+// right after the agent wakes up for the alarm, tries again this many times,
+// a minute apart
+const BUDGET_CHECK_RETRIES = 10;
+const BUDGET_CHECK_RETRY_SECONDS = 60;
+
 //const model = openai("gpt-4o-2024-11-20");
 //const model = anthropic("claude-3-5-sonnet-latest");
 const model = google("gemini-2.5-flash");
@@ -32,6 +46,67 @@ const model = google("gemini-2.5-flash");
  */
 //export
 export class ChatInternal extends AIChatAgent<Env> {
+  /**
+   * Connects to the MCP servers configured in the environment. Servers added
+   * on a previous start are reconnected by the agent before this runs, so
+   * only missing or failed ones are (re)added.
+   */
+  async onStart() {
+    const configured = [
+      {
+        name: EXPENSES_MCP_SERVER,
+        url: this.env.EXPENSES_MCP_URL,
+        headers: {
+          Authorization: `Bearer ${this.env.EXPENSES_API_KEY}`,
+          // Lets the expense history tell which chat made a change
+          "X-Agent-Session": this.name,
+        },
+      },
+      ...(this.env.MCP_SERVER_URLS ?? "")
+        .split(",")
+        .map((url) => url.trim())
+        .filter(Boolean)
+        .map((url) => ({
+          name: new URL(url).hostname,
+          url,
+          headers: undefined,
+        })),
+    ];
+
+    for (const { name, url, headers } of configured) {
+      if (!url) {
+        continue;
+      }
+
+      const { servers } = this.getMcpServers();
+      const existing = Object.entries(servers).find(
+        ([, server]) => server.name === name
+      );
+      if (
+        existing &&
+        existing[1].server_url === url &&
+        existing[1].state !== "failed"
+      ) {
+        continue;
+      }
+
+      try {
+        if (existing) {
+          await this.removeMcpServer(existing[0]);
+        }
+        await this.addMcpServer(
+          name,
+          url,
+          MCP_CALLBACK_HOST,
+          "agents",
+          headers && { transport: { headers } }
+        );
+      } catch (error) {
+        console.error(`Error connecting to MCP server ${name}`, error);
+      }
+    }
+  }
+
   /**
    * Handles incoming chat messages and manages the response stream
    * @param onFinish - Callback function executed when streaming completes
@@ -41,21 +116,15 @@ export class ChatInternal extends AIChatAgent<Env> {
     onFinish: StreamTextOnFinishCallback<ToolSet>,
     options?: { abortSignal?: AbortSignal }
   ) {
-    // Use tools directly - no MCP client needed
-    const allTools = tools;
+    // Tools of every connected MCP server, namespaced as `<serverId>_<tool>`
+    const allTools = {
+      ...tools,
+      ...this.mcp.unstable_getAITools(),
+    };
 
     // Create a streaming response that handles both text and tool outputs
     const dataStreamResponse = createDataStreamResponse({
       execute: async (dataStream) => {
-        console.log(
-          "prompt",
-          `You are a helpful assistant that can do various tasks... 
-
-${unstable_getSchedulePrompt({ date: new Date() })}
-
-If the user asks to schedule a task, use the schedule tool to schedule the task.
-`
-        );
         // Process any pending tool calls from previous messages
         // This handles human-in-the-loop confirmations for tools
         const processedMessages = await processToolCalls({
@@ -76,12 +145,19 @@ If the user asks to schedule a task, use the schedule tool to schedule the task.
 
 EXPENSE MANAGEMENT:
 When the user asks to work with expenses, expenses tracking, invoice management, or financial records, you should:
-1. Use the expense tools (addExpense, getExpenses, updateExpense, deleteExpense) for persistent storage operations
+1. Use the expense server tools (addExpense, getExpenses, updateExpense, deleteExpense, restoreExpense, ...) for persistent storage operations
 2. Use the local createInvoice tool for the UI form when creating new expenses
 3. Help users track, organize, and manage their financial records
+4. When the user sets a budget, offer to watch it with the watchBudgets tool so they are warned at 80% and 100%
+5. When the user describes a specific expense in words ("that Uber ride in March", "the hotel in Berlin"), find it with searchExpenses, using its keywords as the query and any dates or category as filters, rather than paging through getExpenses
+6. When the user attaches a photo of a receipt and wants it logged, read it with the scanReceipt tool, then call logReceiptExpense with the scanned details and a category that fits. logReceiptExpense shows the user a prefilled form to confirm, creates the expense and stores the photo as its receipt, so don't call addExpense or attachReceipt for it as well
+7. When the user attaches a PDF receipt, read the amount, merchant and date from it, create the expense with addExpense, then store the file against that expense with the attachReceipt tool. Use getReceipt to share a download link for an expense's receipt later
+8. When the user shares a cost with other people ("I paid 120 for dinner, split 3 ways"), create the expense, then record who paid and how it is divided with splitExpense. Use getBalances to answer who owes whom, and recordSettlement when someone pays someone back
+9. Expenses can only use categories that already exist. Check getExpenseCategories and use the name of the closest existing category, subcategories included (for "Food > Groceries" use "Groceries"); only call createCategory when nothing fits. When the user asks to always file certain expenses somewhere ("Uber is always Transport"), create a rule with createCategorizationRule after checking it with testRule, and offer to apply it to past expenses with recategorize (dryRun first)
+10. When the user asks who changed an expense, when, or what it looked like before, use getExpenseHistory
 
-The expense tools provide direct API access to the expense storage service.
-`,
+The expense tools come from the expense storage service's MCP server. Their names are prefixed with the server id, e.g. "<serverId>_addExpense" for addExpense.
+${this.getExpensesServerId() ? "" : "\nThe expense server is not connected right now, so none of its tools are available. If the user asks for anything that needs them, tell them the expense server is unreachable instead of pretending to record or look up expenses.\n"}`,
           messages: processedMessages,
           tools: allTools,
           onFinish: async (args) => {
@@ -113,6 +189,192 @@ The expense tools provide direct API access to the expense storage service.
       },
     ]);
   }
+
+  /**
+   * Uploads the most recent image or PDF the user attached to the chat as the
+   * receipt of an expense, through the expense backend's REST API.
+   */
+  async attachReceipt(expenseId: number) {
+    const attachment = findLatestAttachment(
+      this.messages,
+      (contentType) =>
+        contentType.startsWith("image/") || contentType === "application/pdf"
+    );
+    if (!attachment) {
+      throw new Error("No image or PDF has been attached to the conversation");
+    }
+
+    const body = new FormData();
+    body.append(
+      "file",
+      new File([dataUrlToBytes(attachment.url)], attachment.name ?? "receipt", {
+        type: attachment.contentType,
+      })
+    );
+
+    const response = await fetch(
+      new URL(`/api/expenses/${expenseId}/receipt`, this.env.EXPENSES_MCP_URL),
+      {
+        method: "POST",
+        headers: { Authorization: `Bearer ${this.env.EXPENSES_API_KEY}` },
+        body,
+      }
+    );
+    const result = await response.json<{ receipt?: unknown; error?: string }>();
+    if (!response.ok) {
+      throw new Error(result.error ?? `Upload failed (${response.status})`);
+    }
+    return result.receipt;
+  }
+
+  /**
+   * Reads the merchant, total, currency, date, line items and tax from the
+   * most recent image the user attached to the chat
+   */
+  async scanReceipt() {
+    const image = findLatestAttachment(this.messages, (contentType) =>
+      contentType.startsWith("image/")
+    );
+    if (!image) {
+      throw new Error("No image has been attached to the conversation");
+    }
+    return extractReceiptDetails(model, image);
+  }
+
+  /**
+   * Creates the expense the user confirmed in the receipt form and stores the
+   * receipt image against it. Returns the new expense.
+   */
+  async addReceiptExpense(expense: {
+    amount: number;
+    description: string;
+    category: string;
+    currency: string;
+    date?: string;
+    notes?: string;
+  }) {
+    const serverId = this.getExpensesServerId();
+    if (!serverId) {
+      throw new Error("The expense server is not connected");
+    }
+
+    const result = await this.mcp.callTool({
+      serverId,
+      name: "addExpense",
+      arguments: expense,
+    });
+    if (result.isError || !result.structuredContent) {
+      const [content] = result.content as Array<{ text?: string }>;
+      throw new Error(content?.text ?? "Adding the expense failed");
+    }
+
+    const created = (result.structuredContent as { expense: { id: number } })
+      .expense;
+    try {
+      await this.attachReceipt(created.id);
+    } catch (error) {
+      throw new Error(
+        `Expense ${created.id} was created, but storing its receipt failed: ${error}`
+      );
+    }
+    return created;
+  }
+
+  // ID of the expense backend's MCP server, if it is connected
+  private getExpensesServerId() {
+    return Object.entries(this.getMcpServers().servers).find(
+      ([, server]) =>
+        server.name === EXPENSES_MCP_SERVER && server.state === "ready"
+    )?.[0];
+  }
+
+  /**
+   * Scheduled by the watchBudgets tool. Posts a message when a budget crosses
+   * 80% or 100% of its amount, at most once per threshold and budget period.
+   * `retry` counts the attempts made while the expense server was disconnected.
+   */
+  async checkBudgetAlerts(payload?: { retry: number } | null) {
+    const serverId = this.getExpensesServerId();
+    if (!serverId) {
+      const retry = (payload?.retry ?? 0) + 1;
+      if (retry > BUDGET_CHECK_RETRIES) {
+        console.error(
+          "Error checking budgets: expense server is not connected"
+        );
+        return;
+      }
+      await this.schedule(BUDGET_CHECK_RETRY_SECONDS, "checkBudgetAlerts", {
+        retry,
+      });
+      return;
+    }
+
+    const result = await this.mcp.callTool({
+      serverId,
+      name: "getBudgetStatus",
+      arguments: {},
+    });
+    if (result.isError || !result.structuredContent) {
+      console.error("Error checking budgets", result.content);
+      return;
+    }
+
+    const { statuses } = result.structuredContent as {
+      statuses: Array<{
+        budget: {
+          id: number;
+          category: string | null;
+          period: string;
+          amount: number;
+          currency: string;
+        };
+        periodStart: string;
+        spent: number;
+        percent: number;
+        missingRates: Array<{ expenseId: number }>;
+      }>;
+    };
+    const state = this.state as { budgetAlerts?: Record<string, number> };
+    const budgetAlerts = { ...state?.budgetAlerts };
+    const alerts: string[] = [];
+
+    for (const {
+      budget,
+      periodStart,
+      spent,
+      percent,
+      missingRates,
+    } of statuses) {
+      const key = `${budget.id}:${periodStart}`;
+      const threshold = percent >= 100 ? 100 : percent >= 80 ? 80 : 0;
+
+      if (threshold > (budgetAlerts[key] ?? 0)) {
+        budgetAlerts[key] = threshold;
+        const missingNote =
+          missingRates.length > 0
+            ? ` ${missingRates.length} expenses in other currencies aren't counted because there is no exchange rate for their date.`
+            : "";
+        alerts.push(
+          `The ${budget.period} ${budget.category ?? "overall"} budget has reached ${percent}% (${spent} of ${budget.amount} ${budget.currency}).${missingNote}`
+        );
+      }
+    }
+
+    if (alerts.length === 0) {
+      return;
+    }
+
+    this.setState({ ...state, budgetAlerts });
+    await this.saveMessages([
+      ...this.messages,
+      {
+        id: generateId(),
+        role: "user",
+        content: `Running scheduled task: budget check. Warn me about the following:\n${alerts.join("\n")}`,
+        createdAt: new Date(),
+      },
+    ]);
+  }
 }
 
 export const Chat = withInstrumentation(ChatInternal);
@@ -7,6 +7,15 @@ import { z } from "zod";
 
 import { getCurrentAgent } from "agents";
 import { unstable_scheduleSchema } from "agents/schedule";
+import { formatAmount } from "@cf-hackathon/money";
+import type { ChatInternal } from "./server";
+import { receiptDetailsSchema, type ReceiptDetails } from "./receipts";
+
+/**
+ * Host the agent's OAuth callback URLs are built from when connecting to MCP
+ * servers
+ */
+export const MCP_CALLBACK_HOST = "http://localhost:5173";
 
 /**
  * Weather information tool that requires human confirmation
@@ -146,7 +155,7 @@ const addMcpServer = tool({
     const { id, authUrl } = await agent.addMcpServer(
       name,
       url,
-      "http://localhost:5173"
+      MCP_CALLBACK_HOST
     );
     return `MCP server added with id ${id}. ${authUrl ? `Authentication is necessary. Use URL: ${authUrl}` : ""}`;
   },
@@ -241,213 +250,100 @@ const listInvoices = tool({
     return invoices
       .map(
         (invoice) =>
-          `ID: ${invoice.id}\nName: ${invoice.name}\nDescription: ${invoice.description}\nPrice: $${invoice.price.toFixed(2)}\nCreated: ${new Date(invoice.createdAt).toLocaleDateString()}`
+          `ID: ${invoice.id}\nName: ${invoice.name}\nDescription: ${invoice.description}\nPrice: ${formatAmount(invoice.price, "USD")}\nCreated: ${new Date(invoice.createdAt).toLocaleDateString()}`
       )
       .join("\n\n");
   },
 });
 
-// Expense management tools using direct API calls
-const addExpense = tool({
-  description: "Add a new expense to persistent storage",
+/**
+ * Tool to start watching budgets on a schedule
+ * The scheduled check only posts a message when a budget crosses 80% or 100%
+ */
+const watchBudgets = tool({
+  description:
+    "Schedule a recurring check that warns the user when a budget crosses 80% or 100% of its amount",
   parameters: z.object({
-    amount: z.number().positive().describe("Expense amount"),
-    description: z.string().min(1).describe("Expense description"),
-    category: z.string().min(1).describe("Expense category"),
-    date: z
+    cron: z
       .string()
-      .optional()
-      .describe("Expense date (ISO string, defaults to current date)"),
-    currency: z.string().default("USD").describe("Currency code"),
-    tags: z.array(z.string()).optional().describe("Array of tags"),
-    paymentMethod: z.string().optional().describe("Payment method used"),
-    receipt: z.string().optional().describe("Receipt URL or reference"),
+      .default("0 9 * * *")
+      .describe("Cron expression for how often to check (defaults to daily)"),
   }),
-  execute: async ({
-    amount,
-    description,
-    category,
-    date,
-    currency,
-    tags,
-    paymentMethod,
-    receipt,
-  }) => {
-    try {
-      const response = await fetch(
-        "https://cf-hack-mcp.nt9142.workers.dev/api/expenses",
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            amount,
-            description,
-            category,
-            date: date || new Date().toISOString(),
-            currency: currency || "USD",
-            tags: tags || [],
-            paymentMethod,
-            receipt,
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(
-          `API Error: ${errorData.error || "Failed to add expense"}`
-        );
-      }
+  execute: async ({ cron }) => {
+    const { agent } = getCurrentAgent<ChatInternal>();
+
+    const existing = agent!
+      .getSchedules()
+      .find((schedule) => schedule.callback === "checkBudgetAlerts");
+    if (existing) {
+      return `Budgets are already being watched (task ${existing.id}).`;
+    }
 
-      const data = await response.json();
-      return `Expense added successfully: ${JSON.stringify(data.expense, null, 2)}`;
+    try {
+      const schedule = await agent!.schedule(cron, "checkBudgetAlerts");
+      return `Budget alerts scheduled with cron "${cron}" (task ${schedule.id}).`;
     } catch (error) {
-      return `Error adding expense: ${error instanceof Error ? error.message : "Unknown error"}`;
+      console.error("error scheduling budget alerts", error);
+      return `Error scheduling budget alerts: ${error}`;
     }
   },
 });
 
-const getExpenses = tool({
-  description: "Get expenses from persistent storage with optional filters",
+/**
+ * Tool to store the user's latest chat attachment as an expense's receipt
+ * Executes automatically, since the user attached the file for this purpose
+ */
+const attachReceipt = tool({
+  description:
+    "Store the image or PDF the user most recently attached to the chat as the receipt of an expense. Call it right after creating the expense the attachment belongs to.",
   parameters: z.object({
-    category: z.string().optional().describe("Filter by category"),
-    startDate: z.string().optional().describe("Filter from date (ISO string)"),
-    endDate: z.string().optional().describe("Filter to date (ISO string)"),
-    limit: z.number().default(50).describe("Limit results"),
+    expenseId: z.number().describe("ID of the expense the receipt belongs to"),
   }),
-  execute: async ({ category, startDate, endDate, limit }) => {
-    try {
-      const response = await fetch(
-        "https://cf-hack-mcp.nt9142.workers.dev/api/expenses"
-      );
-
-      if (!response.ok) {
-        throw new Error(`API Error: Failed to fetch expenses`);
-      }
-
-      const data = await response.json();
-      let expenses = data.expenses || [];
-
-      // Apply filters
-      if (category) {
-        expenses = expenses.filter(
-          (expense: any) => expense.category === category
-        );
-      }
-
-      if (startDate) {
-        expenses = expenses.filter((expense: any) => expense.date >= startDate);
-      }
+  execute: async ({ expenseId }) => {
+    const { agent } = getCurrentAgent<ChatInternal>();
 
-      if (endDate) {
-        expenses = expenses.filter((expense: any) => expense.date <= endDate);
-      }
-
-      // Apply limit
-      expenses = expenses.slice(0, limit);
-
-      return `Found ${expenses.length} expenses:\n${JSON.stringify(expenses, null, 2)}`;
+    try {
+      const receipt = await agent!.attachReceipt(expenseId);
+      return `Receipt stored on expense ${expenseId}: ${JSON.stringify(receipt)}`;
     } catch (error) {
-      return `Error retrieving expenses: ${error instanceof Error ? error.message : "Unknown error"}`;
+      console.error("Error attaching receipt", error);
+      return `Error attaching receipt: ${error}`;
     }
   },
 });
 
-const updateExpense = tool({
-  description: "Update an existing expense in persistent storage",
-  parameters: z.object({
-    id: z.number().describe("Expense ID"),
-    amount: z.number().positive().optional().describe("Expense amount"),
-    description: z.string().min(1).optional().describe("Expense description"),
-    category: z.string().min(1).optional().describe("Expense category"),
-    date: z.string().optional().describe("Expense date (ISO string)"),
-    currency: z.string().optional().describe("Currency code"),
-    tags: z.array(z.string()).optional().describe("Array of tags"),
-    paymentMethod: z.string().optional().describe("Payment method used"),
-    receipt: z.string().optional().describe("Receipt URL or reference"),
-  }),
-  execute: async ({
-    id,
-    amount,
-    description,
-    category,
-    date,
-    currency,
-    tags,
-    paymentMethod,
-    receipt,
-  }) => {
-    try {
-      const updateData: any = {};
-
-      if (amount !== undefined) updateData.amount = amount;
-      if (description !== undefined) updateData.description = description;
-      if (category !== undefined) updateData.category = category;
-      if (date !== undefined) updateData.date = date;
-      if (currency !== undefined) updateData.currency = currency;
-      if (tags !== undefined) updateData.tags = tags;
-      if (paymentMethod !== undefined) updateData.paymentMethod = paymentMethod;
-      if (receipt !== undefined) updateData.receipt = receipt;
-
-      if (Object.keys(updateData).length === 0) {
-        return "No fields provided to update";
-      }
-
-      const response = await fetch(
-        `https://cf-hack-mcp.nt9142.workers.dev/api/expenses/${id}`,
-        {
-          method: "PUT",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(updateData),
-        }
-      );
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(
-          `API Error: ${errorData.error || "Failed to update expense"}`
-        );
-      }
+/**
+ * Tool to read the details of the receipt photo the user attached
+ * Executes automatically; it only reads, the expense is created by logReceiptExpense
+ */
+const scanReceipt = tool({
+  description:
+    "Read the merchant, total, currency, date, line items and tax from the receipt photo the user most recently attached to the chat",
+  parameters: z.object({}),
+  execute: async () => {
+    const { agent } = getCurrentAgent<ChatInternal>();
 
-      const data = await response.json();
-      return `Expense updated successfully: ${JSON.stringify(data.expense, null, 2)}`;
+    try {
+      return await agent!.scanReceipt();
     } catch (error) {
-      return `Error updating expense: ${error instanceof Error ? error.message : "Unknown error"}`;
+      console.error("Error scanning receipt", error);
+      return `Error scanning receipt: ${error}`;
     }
   },
 });
 
-const deleteExpense = tool({
-  description: "Delete an expense from persistent storage",
-  parameters: z.object({
-    id: z.number().describe("Expense ID to delete"),
+/**
+ * Receipt expense tool that requires human confirmation
+ * When invoked, this will present the receipt form prefilled with the scanned details
+ * The actual implementation is in the executions object below
+ */
+const logReceiptExpense = tool({
+  description:
+    "Show the user a form prefilled with the details scanned from their receipt photo. Once they confirm, the expense is created and the photo is stored as its receipt.",
+  parameters: receiptDetailsSchema.extend({
+    category: z.string().describe("Expense category that fits the purchase"),
   }),
-  execute: async ({ id }) => {
-    try {
-      const response = await fetch(
-        `https://cf-hack-mcp.nt9142.workers.dev/api/expenses/${id}`,
-        {
-          method: "DELETE",
-        }
-      );
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(
-          `API Error: ${errorData.error || "Failed to delete expense"}`
-        );
-      }
-
-      const data = await response.json();
-      return `Expense deleted successfully: ${data.message}`;
-    } catch (error) {
-      return `Error deleting expense: ${error instanceof Error ? error.message : "Unknown error"}`;
-    }
-  },
+  // Omitting execute function makes this tool require human confirmation
 });
 
 /**
@@ -467,10 +363,10 @@ export const tools = {
   cancelScheduledTask,
   createInvoice,
   listInvoices,
-  addExpense,
-  getExpenses,
-  updateExpense,
-  deleteExpense,
+  watchBudgets,
+  attachReceipt,
+  scanReceipt,
+  logReceiptExpense,
 };
 
 /**
@@ -519,6 +415,41 @@ export const executions = {
       invoices: updatedInvoices,
     });
 
-    return `Invoice created successfully!\n\nName: ${name}\nDescription: ${description}\nPrice: $${price.toFixed(2)}\nID: ${newInvoice.id}`;
+    return `Invoice created successfully!\n\nName: ${name}\nDescription: ${description}\nPrice: ${formatAmount(price, "USD")}\nID: ${newInvoice.id}`;
+  },
+  logReceiptExpense: async ({
+    merchant,
+    total,
+    currency,
+    date,
+    category,
+    lineItems,
+    tax,
+  }: ReceiptDetails & { category: string }) => {
+    const { agent } = getCurrentAgent<ChatInternal>();
+
+    // Line items and tax have no fields of their own, keep them searchable in the notes
+    const notes = [
+      ...lineItems.map(
+        ({ description, quantity, amount }) =>
+          `${quantity ? `${quantity} x ` : ""}${description}: ${formatAmount(amount, currency)}`
+      ),
+      ...(tax === null ? [] : [`Tax: ${formatAmount(tax, currency)}`]),
+    ].join("\n");
+
+    try {
+      const expense = await agent!.addReceiptExpense({
+        amount: total,
+        description: merchant,
+        category,
+        currency,
+        date: date ?? undefined,
+        notes: notes || undefined,
+      });
+      return `Expense ${expense.id} created: ${merchant}, ${formatAmount(total, currency)}. The receipt photo is stored with it.`;
+    } catch (error) {
+      console.error("Error logging receipt expense", error);
+      return `Error logging receipt expense: ${error}`;
+    }
   },
 };
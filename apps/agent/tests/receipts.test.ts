@@ -0,0 +1,121 @@
+import type { LanguageModelV1, LanguageModelV1CallOptions } from "ai";
+import type { Message } from "@ai-sdk/ui-utils";
+import { describe, it, expect } from "vitest";
+import {
+  extractReceiptDetails,
+  findLatestAttachment,
+  type ReceiptDetails,
+} from "../src/receipts";
+
+const details: ReceiptDetails = {
+  merchant: "Corner Cafe",
+  total: 12.6,
+  currency: "EUR",
+  date: "2025-06-14",
+  lineItems: [
+    { description: "Cappuccino", quantity: 2, amount: 7.2 },
+    { description: "Croissant", quantity: null, amount: 5.4 },
+  ],
+  tax: 1.15,
+};
+
+// Model that answers every request with the given text. `ai/test` has a mock
+// model too, but it imports `node:https`, which the Workers runtime lacks.
+function mockModel(text: string) {
+  const doGenerateCalls: LanguageModelV1CallOptions[] = [];
+  return {
+    specificationVersion: "v1",
+    provider: "mock",
+    modelId: "mock",
+    defaultObjectGenerationMode: "json",
+    doGenerateCalls,
+    doGenerate: async (options) => {
+      doGenerateCalls.push(options);
+      return {
+        rawCall: { rawPrompt: null, rawSettings: {} },
+        finishReason: "stop",
+        usage: { promptTokens: 10, completionTokens: 20 },
+        text,
+      };
+    },
+    doStream: async () => {
+      throw new Error("The mock model doesn't stream");
+    },
+  } satisfies LanguageModelV1 & { doGenerateCalls: unknown[] };
+}
+
+const image = {
+  name: "receipt.png",
+  contentType: "image/png",
+  url: `data:image/png;base64,${btoa("not really a png")}`,
+};
+
+describe("Receipt extraction", () => {
+  it("returns the details the model read from the image", async () => {
+    const model = mockModel(JSON.stringify(details));
+
+    expect(await extractReceiptDetails(model, image)).toEqual(details);
+
+    // The image is sent to the model as bytes, next to the instructions
+    const [{ prompt }] = model.doGenerateCalls;
+    const message = prompt.find(({ role }) => role === "user");
+    expect(message?.content).toContainEqual({
+      type: "image",
+      image: new TextEncoder().encode("not really a png"),
+      mimeType: "image/png",
+    });
+  });
+
+  it("rejects output that doesn't match the schema", async () => {
+    const model = mockModel(
+      JSON.stringify({ ...details, total: "12.60", currency: "Euro" })
+    );
+
+    await expect(extractReceiptDetails(model, image)).rejects.toThrow();
+  });
+});
+
+describe("Latest attachment", () => {
+  const pdf = {
+    name: "invoice.pdf",
+    contentType: "application/pdf",
+    url: "data:application/pdf;base64,",
+  };
+  const messages: Message[] = [
+    {
+      id: "1",
+      role: "user",
+      content: "Log this",
+      experimental_attachments: [image],
+    },
+    {
+      id: "2",
+      role: "assistant",
+      content: "Done",
+      experimental_attachments: [{ ...image, url: "data:image/png;base64," }],
+    },
+    {
+      id: "3",
+      role: "user",
+      content: "And this one",
+      experimental_attachments: [pdf],
+    },
+  ];
+
+  it("finds the user's most recent matching attachment", () => {
+    expect(
+      findLatestAttachment(messages, (contentType) =>
+        contentType.startsWith("image/")
+      )
+    ).toEqual(image);
+    expect(findLatestAttachment(messages, () => true)).toEqual(pdf);
+  });
+
+  it("returns undefined when nothing matches", () => {
+    expect(
+      findLatestAttachment(messages, (contentType) =>
+        contentType.startsWith("video/")
+      )
+    ).toBeUndefined();
+  });
+});
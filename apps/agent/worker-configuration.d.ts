@@ -4,6 +4,9 @@
 declare namespace Cloudflare {
 	interface Env {
 		OPENAI_API_KEY: string;
+		EXPENSES_API_KEY: string;
+		EXPENSES_MCP_URL: string;
+		MCP_SERVER_URLS: string;
 		Chat: DurableObjectNamespace<import("./src/server").Chat>;
 	}
 }
@@ -12,7 +15,7 @@ type StringifyValues<EnvType extends Record<string, unknown>> = {
 	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
 };
 declare namespace NodeJS {
-	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "OPENAI_API_KEY">> {}
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "OPENAI_API_KEY" | "EXPENSES_API_KEY" | "EXPENSES_MCP_URL" | "MCP_SERVER_URLS">> {}
 }
 
 // Begin runtime types
@@ -0,0 +1,71 @@
+CREATE TABLE `ledger_members` (
+	`ledger_id` integer NOT NULL,
+	`user_id` integer NOT NULL,
+	`role` text DEFAULT 'editor' NOT NULL,
+	`created_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL,
+	PRIMARY KEY(`ledger_id`, `user_id`),
+	FOREIGN KEY (`ledger_id`) REFERENCES `ledgers`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `ledger_members_user_idx` ON `ledger_members` (`user_id`);--> statement-breakpoint
+CREATE TABLE `ledgers` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`owner_id` integer NOT NULL,
+	`created_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL,
+	FOREIGN KEY (`owner_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `ledgers_owner_idx` ON `ledgers` (`owner_id`);--> statement-breakpoint
+CREATE TABLE `users` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`email` text,
+	`created_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `users_email_unique` ON `users` (`email`);--> statement-breakpoint
+-- Existing rows predate ledgers: move them into a default ledger owned by a default user.
+INSERT INTO `users` (`id`, `name`) VALUES (1, 'Default user');--> statement-breakpoint
+INSERT INTO `ledgers` (`id`, `name`, `owner_id`) VALUES (1, 'Default', 1);--> statement-breakpoint
+INSERT INTO `ledger_members` (`ledger_id`, `user_id`, `role`) VALUES (1, 1, 'owner');--> statement-breakpoint
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_categories` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`ledger_id` integer NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`created_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL,
+	FOREIGN KEY (`ledger_id`) REFERENCES `ledgers`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+INSERT INTO `__new_categories`("id", "ledger_id", "name", "description", "created_at") SELECT "id", 1, "name", "description", "created_at" FROM `categories`;--> statement-breakpoint
+DROP TABLE `categories`;--> statement-breakpoint
+ALTER TABLE `__new_categories` RENAME TO `categories`;--> statement-breakpoint
+CREATE INDEX `categories_name_idx` ON `categories` (`name`);--> statement-breakpoint
+CREATE UNIQUE INDEX `categories_ledger_name_unique` ON `categories` (`ledger_id`,`name`);--> statement-breakpoint
+CREATE TABLE `__new_expenses` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`ledger_id` integer NOT NULL,
+	`amount` real NOT NULL,
+	`description` text NOT NULL,
+	`category` text NOT NULL,
+	`date` text NOT NULL,
+	`currency` text DEFAULT 'USD' NOT NULL,
+	`tags` text,
+	`payment_method` text,
+	`receipt` text,
+	`created_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL,
+	FOREIGN KEY (`ledger_id`) REFERENCES `ledgers`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+INSERT INTO `__new_expenses`("id", "ledger_id", "amount", "description", "category", "date", "currency", "tags", "payment_method", "receipt", "created_at") SELECT "id", 1, "amount", "description", "category", "date", "currency", "tags", "payment_method", "receipt", "created_at" FROM `expenses`;--> statement-breakpoint
+DROP TABLE `expenses`;--> statement-breakpoint
+ALTER TABLE `__new_expenses` RENAME TO `expenses`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE INDEX `expenses_ledger_idx` ON `expenses` (`ledger_id`);--> statement-breakpoint
+CREATE INDEX `expenses_category_idx` ON `expenses` (`category`);--> statement-breakpoint
+CREATE INDEX `expenses_date_idx` ON `expenses` (`date`);--> statement-breakpoint
+CREATE INDEX `expenses_currency_idx` ON `expenses` (`currency`);
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `budgets` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`ledger_id` integer NOT NULL,
+	`category` text,
+	`period` text DEFAULT 'monthly' NOT NULL,
+	`amount` real NOT NULL,
+	`currency` text DEFAULT 'USD' NOT NULL,
+	`created_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL,
+	`updated_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL,
+	FOREIGN KEY (`ledger_id`) REFERENCES `ledgers`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `budgets_ledger_idx` ON `budgets` (`ledger_id`);
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE `recurring_expenses` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`ledger_id` integer NOT NULL,
+	`amount` real NOT NULL,
+	`description` text NOT NULL,
+	`category` text NOT NULL,
+	`currency` text DEFAULT 'USD' NOT NULL,
+	`tags` text,
+	`payment_method` text,
+	`frequency` text NOT NULL,
+	`interval` integer DEFAULT 1 NOT NULL,
+	`day_of_month` integer,
+	`start_date` text NOT NULL,
+	`end_date` text,
+	`next_date` text NOT NULL,
+	`status` text DEFAULT 'active' NOT NULL,
+	`created_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL,
+	`updated_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL,
+	FOREIGN KEY (`ledger_id`) REFERENCES `ledgers`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `recurring_expenses_ledger_idx` ON `recurring_expenses` (`ledger_id`);--> statement-breakpoint
+CREATE INDEX `recurring_expenses_status_next_date_idx` ON `recurring_expenses` (`status`,`next_date`);--> statement-breakpoint
+ALTER TABLE `expenses` ADD `recurring_expense_id` integer REFERENCES recurring_expenses(id) ON DELETE set null;--> statement-breakpoint
+ALTER TABLE `expenses` ADD `occurrence_date` text;--> statement-breakpoint
+CREATE UNIQUE INDEX `expenses_recurring_occurrence_unique` ON `expenses` (`recurring_expense_id`,`occurrence_date`);
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `exchange_rates` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`date` text NOT NULL,
+	`base` text NOT NULL,
+	`quote` text NOT NULL,
+	`rate` real NOT NULL,
+	`source` text,
+	`created_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `exchange_rates_date_pair_unique` ON `exchange_rates` (`date`,`base`,`quote`);--> statement-breakpoint
+CREATE INDEX `exchange_rates_pair_date_idx` ON `exchange_rates` (`base`,`quote`,`date`);
\ No newline at end of file
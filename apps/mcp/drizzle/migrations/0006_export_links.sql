@@ -0,0 +1,13 @@
+CREATE TABLE `export_links` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`ledger_id` integer NOT NULL,
+	`token_hash` text NOT NULL,
+	`format` text NOT NULL,
+	`filters` text NOT NULL,
+	`expires_at` text NOT NULL,
+	`created_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL,
+	FOREIGN KEY (`ledger_id`) REFERENCES `ledgers`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `export_links_token_hash_unique` ON `export_links` (`token_hash`);--> statement-breakpoint
+CREATE INDEX `export_links_ledger_idx` ON `export_links` (`ledger_id`);
\ No newline at end of file
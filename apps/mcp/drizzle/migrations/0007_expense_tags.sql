@@ -0,0 +1,31 @@
+CREATE TABLE `expense_tags` (
+	`expense_id` integer NOT NULL,
+	`tag_id` integer NOT NULL,
+	PRIMARY KEY(`expense_id`, `tag_id`),
+	FOREIGN KEY (`expense_id`) REFERENCES `expenses`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`tag_id`) REFERENCES `tags`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `expense_tags_tag_idx` ON `expense_tags` (`tag_id`);--> statement-breakpoint
+CREATE TABLE `tags` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`ledger_id` integer NOT NULL,
+	`name` text NOT NULL,
+	`created_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL,
+	FOREIGN KEY (`ledger_id`) REFERENCES `ledgers`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `tags_ledger_name_unique` ON `tags` (`ledger_id`,`name`);--> statement-breakpoint
+-- Move the JSON `expenses.tags` arrays into `tags` / `expense_tags` before dropping the column
+INSERT OR IGNORE INTO `tags` (`ledger_id`, `name`)
+SELECT DISTINCT `expenses`.`ledger_id`, trim(`tag`.`value`)
+FROM `expenses`, json_each(`expenses`.`tags`) AS `tag`
+WHERE json_valid(`expenses`.`tags`) AND `tag`.`type` = 'text' AND trim(`tag`.`value`) != '';
+--> statement-breakpoint
+INSERT OR IGNORE INTO `expense_tags` (`expense_id`, `tag_id`)
+SELECT `expenses`.`id`, `tags`.`id`
+FROM `expenses`, json_each(`expenses`.`tags`) AS `tag`
+INNER JOIN `tags` ON `tags`.`ledger_id` = `expenses`.`ledger_id` AND `tags`.`name` = trim(`tag`.`value`)
+WHERE json_valid(`expenses`.`tags`) AND `tag`.`type` = 'text';
+--> statement-breakpoint
+ALTER TABLE `expenses` DROP COLUMN `tags`;
\ No newline at end of file
@@ -0,0 +1,44 @@
+ALTER TABLE `expenses` ADD `notes` text;--> statement-breakpoint
+-- Full-text index over expenses. The rowid is the expense id; tags are
+-- flattened into a space separated column. Drizzle can't model virtual
+-- tables, so it is kept in sync by the triggers below rather than by the app.
+CREATE VIRTUAL TABLE `expenses_fts` USING fts5(
+	`description`,
+	`tags`,
+	`notes`,
+	tokenize = 'unicode61 remove_diacritics 2',
+	prefix = '2 3'
+);
+--> statement-breakpoint
+INSERT INTO `expenses_fts` (`rowid`, `description`, `tags`, `notes`)
+SELECT `expenses`.`id`, `expenses`.`description`,
+	(SELECT group_concat(`tags`.`name`, ' ') FROM `expense_tags` INNER JOIN `tags` ON `tags`.`id` = `expense_tags`.`tag_id` WHERE `expense_tags`.`expense_id` = `expenses`.`id`),
+	`expenses`.`notes`
+FROM `expenses`;
+--> statement-breakpoint
+CREATE TRIGGER `expenses_fts_insert` AFTER INSERT ON `expenses` BEGIN
+	INSERT INTO `expenses_fts` (`rowid`, `description`, `tags`, `notes`) VALUES (new.`id`, new.`description`, NULL, new.`notes`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `expenses_fts_update` AFTER UPDATE OF `description`, `notes` ON `expenses` BEGIN
+	UPDATE `expenses_fts` SET `description` = new.`description`, `notes` = new.`notes` WHERE `rowid` = new.`id`;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `expenses_fts_delete` AFTER DELETE ON `expenses` BEGIN
+	DELETE FROM `expenses_fts` WHERE `rowid` = old.`id`;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `expense_tags_fts_insert` AFTER INSERT ON `expense_tags` BEGIN
+	UPDATE `expenses_fts` SET `tags` = (SELECT group_concat(`tags`.`name`, ' ') FROM `expense_tags` INNER JOIN `tags` ON `tags`.`id` = `expense_tags`.`tag_id` WHERE `expense_tags`.`expense_id` = new.`expense_id`)
+	WHERE `rowid` = new.`expense_id`;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `expense_tags_fts_delete` AFTER DELETE ON `expense_tags` BEGIN
+	UPDATE `expenses_fts` SET `tags` = (SELECT group_concat(`tags`.`name`, ' ') FROM `expense_tags` INNER JOIN `tags` ON `tags`.`id` = `expense_tags`.`tag_id` WHERE `expense_tags`.`expense_id` = old.`expense_id`)
+	WHERE `rowid` = old.`expense_id`;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `tags_fts_rename` AFTER UPDATE OF `name` ON `tags` BEGIN
+	UPDATE `expenses_fts` SET `tags` = (SELECT group_concat(`tags`.`name`, ' ') FROM `expense_tags` INNER JOIN `tags` ON `tags`.`id` = `expense_tags`.`tag_id` WHERE `expense_tags`.`expense_id` = `expenses_fts`.`rowid`)
+	WHERE `rowid` IN (SELECT `expense_id` FROM `expense_tags` WHERE `tag_id` = new.`id`);
+END;
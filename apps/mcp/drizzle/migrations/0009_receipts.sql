@@ -0,0 +1,29 @@
+CREATE TABLE `receipt_links` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`receipt_id` integer NOT NULL,
+	`token_hash` text NOT NULL,
+	`expires_at` text NOT NULL,
+	`created_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL,
+	FOREIGN KEY (`receipt_id`) REFERENCES `receipts`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `receipt_links_token_hash_unique` ON `receipt_links` (`token_hash`);--> statement-breakpoint
+CREATE INDEX `receipt_links_receipt_idx` ON `receipt_links` (`receipt_id`);--> statement-breakpoint
+CREATE TABLE `receipts` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`ledger_id` integer NOT NULL,
+	`expense_id` integer NOT NULL,
+	`object_key` text NOT NULL,
+	`file_name` text NOT NULL,
+	`content_type` text NOT NULL,
+	`size` integer NOT NULL,
+	`width` integer,
+	`height` integer,
+	`created_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL,
+	FOREIGN KEY (`ledger_id`) REFERENCES `ledgers`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`expense_id`) REFERENCES `expenses`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `receipts_expense_id_unique` ON `receipts` (`expense_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `receipts_object_key_unique` ON `receipts` (`object_key`);--> statement-breakpoint
+CREATE INDEX `receipts_ledger_idx` ON `receipts` (`ledger_id`);
\ No newline at end of file
@@ -0,0 +1,39 @@
+CREATE TABLE `expense_splits` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`expense_id` integer NOT NULL,
+	`participant_id` integer NOT NULL,
+	`method` text NOT NULL,
+	`value` real,
+	`paid` real DEFAULT 0 NOT NULL,
+	`owed` real DEFAULT 0 NOT NULL,
+	FOREIGN KEY (`expense_id`) REFERENCES `expenses`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`participant_id`) REFERENCES `participants`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `expense_splits_expense_participant_unique` ON `expense_splits` (`expense_id`,`participant_id`);--> statement-breakpoint
+CREATE INDEX `expense_splits_participant_idx` ON `expense_splits` (`participant_id`);--> statement-breakpoint
+CREATE TABLE `participants` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`ledger_id` integer NOT NULL,
+	`name` text NOT NULL,
+	`created_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL,
+	FOREIGN KEY (`ledger_id`) REFERENCES `ledgers`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `participants_ledger_name_unique` ON `participants` (`ledger_id`,`name`);--> statement-breakpoint
+CREATE TABLE `settlements` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`ledger_id` integer NOT NULL,
+	`from_participant_id` integer NOT NULL,
+	`to_participant_id` integer NOT NULL,
+	`amount` real NOT NULL,
+	`currency` text DEFAULT 'USD' NOT NULL,
+	`date` text NOT NULL,
+	`note` text,
+	`created_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL,
+	FOREIGN KEY (`ledger_id`) REFERENCES `ledgers`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`from_participant_id`) REFERENCES `participants`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`to_participant_id`) REFERENCES `participants`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `settlements_ledger_idx` ON `settlements` (`ledger_id`);
\ No newline at end of file
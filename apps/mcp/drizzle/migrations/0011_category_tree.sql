@@ -0,0 +1,40 @@
+ALTER TABLE `categories` ADD `parent_id` integer REFERENCES categories(id);--> statement-breakpoint
+CREATE INDEX `categories_parent_idx` ON `categories` (`parent_id`);--> statement-breakpoint
+-- Expenses, recurring expenses and budgets name their category as free text.
+-- Create the categories they use that the ledger doesn't have yet, then keep
+-- them honest with the triggers below (Drizzle can't model a foreign key on
+-- the (ledger_id, category) pair without rebuilding those tables).
+INSERT OR IGNORE INTO `categories` (`ledger_id`, `name`)
+SELECT DISTINCT `ledger_id`, `category` FROM `expenses`
+UNION SELECT DISTINCT `ledger_id`, `category` FROM `recurring_expenses`
+UNION SELECT DISTINCT `ledger_id`, `category` FROM `budgets` WHERE `category` IS NOT NULL;
+--> statement-breakpoint
+CREATE TRIGGER `expenses_category_insert` BEFORE INSERT ON `expenses`
+WHEN NOT EXISTS (SELECT 1 FROM `categories` WHERE `ledger_id` = new.`ledger_id` AND `name` = new.`category`) BEGIN
+	SELECT RAISE(ABORT, 'Unknown category');
+END;
+--> statement-breakpoint
+CREATE TRIGGER `expenses_category_update` BEFORE UPDATE OF `ledger_id`, `category` ON `expenses`
+WHEN NOT EXISTS (SELECT 1 FROM `categories` WHERE `ledger_id` = new.`ledger_id` AND `name` = new.`category`) BEGIN
+	SELECT RAISE(ABORT, 'Unknown category');
+END;
+--> statement-breakpoint
+CREATE TRIGGER `recurring_expenses_category_insert` BEFORE INSERT ON `recurring_expenses`
+WHEN NOT EXISTS (SELECT 1 FROM `categories` WHERE `ledger_id` = new.`ledger_id` AND `name` = new.`category`) BEGIN
+	SELECT RAISE(ABORT, 'Unknown category');
+END;
+--> statement-breakpoint
+CREATE TRIGGER `recurring_expenses_category_update` BEFORE UPDATE OF `ledger_id`, `category` ON `recurring_expenses`
+WHEN NOT EXISTS (SELECT 1 FROM `categories` WHERE `ledger_id` = new.`ledger_id` AND `name` = new.`category`) BEGIN
+	SELECT RAISE(ABORT, 'Unknown category');
+END;
+--> statement-breakpoint
+CREATE TRIGGER `budgets_category_insert` BEFORE INSERT ON `budgets`
+WHEN new.`category` IS NOT NULL AND NOT EXISTS (SELECT 1 FROM `categories` WHERE `ledger_id` = new.`ledger_id` AND `name` = new.`category`) BEGIN
+	SELECT RAISE(ABORT, 'Unknown category');
+END;
+--> statement-breakpoint
+CREATE TRIGGER `budgets_category_update` BEFORE UPDATE OF `ledger_id`, `category` ON `budgets`
+WHEN new.`category` IS NOT NULL AND NOT EXISTS (SELECT 1 FROM `categories` WHERE `ledger_id` = new.`ledger_id` AND `name` = new.`category`) BEGIN
+	SELECT RAISE(ABORT, 'Unknown category');
+END;
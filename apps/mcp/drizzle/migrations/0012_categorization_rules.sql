@@ -0,0 +1,26 @@
+CREATE TABLE `categorization_rules` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`ledger_id` integer NOT NULL,
+	`category` text NOT NULL,
+	`priority` integer DEFAULT 0 NOT NULL,
+	`description_contains` text,
+	`description_pattern` text,
+	`merchant` text,
+	`payment_method` text,
+	`min_amount` real,
+	`max_amount` real,
+	`created_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL,
+	FOREIGN KEY (`ledger_id`) REFERENCES `ledgers`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `categorization_rules_ledger_idx` ON `categorization_rules` (`ledger_id`);--> statement-breakpoint
+-- Rules, like expenses, can only file under categories the ledger has
+CREATE TRIGGER `categorization_rules_category_insert` BEFORE INSERT ON `categorization_rules`
+WHEN NOT EXISTS (SELECT 1 FROM `categories` WHERE `ledger_id` = new.`ledger_id` AND `name` = new.`category`) BEGIN
+	SELECT RAISE(ABORT, 'Unknown category');
+END;
+--> statement-breakpoint
+CREATE TRIGGER `categorization_rules_category_update` BEFORE UPDATE OF `ledger_id`, `category` ON `categorization_rules`
+WHEN NOT EXISTS (SELECT 1 FROM `categories` WHERE `ledger_id` = new.`ledger_id` AND `name` = new.`category`) BEGIN
+	SELECT RAISE(ABORT, 'Unknown category');
+END;
@@ -0,0 +1,45 @@
+CREATE TABLE `currency_exponents` (
+	`code` text PRIMARY KEY NOT NULL,
+	`exponent` integer NOT NULL
+);
+--> statement-breakpoint
+-- ISO 4217 currencies whose minor unit isn't a hundredth; keep in sync with src/money.ts
+INSERT INTO `currency_exponents` (`code`, `exponent`) VALUES
+('BHD', 3),
+('BIF', 0),
+('CLF', 4),
+('CLP', 0),
+('DJF', 0),
+('GNF', 0),
+('IQD', 3),
+('ISK', 0),
+('JOD', 3),
+('JPY', 0),
+('KMF', 0),
+('KRW', 0),
+('KWD', 3),
+('LYD', 3),
+('OMR', 3),
+('PYG', 0),
+('RWF', 0),
+('TND', 3),
+('UGX', 0),
+('UYI', 0),
+('UYW', 4),
+('VND', 0),
+('VUV', 0),
+('XAF', 0),
+('XOF', 0),
+('XPF', 0);
+--> statement-breakpoint
+-- SQLite can't add a NOT NULL column without a default; every row is backfilled below
+ALTER TABLE `expenses` ADD `amount_minor` integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+-- D1 has no power(), so the exponent is spelled out. The inner ROUND drops
+-- float noise first, as toMinorUnits does, so 1.005 USD becomes 101 cents
+UPDATE `expenses` SET `amount_minor` = CAST(ROUND(ROUND(`amount` * CASE
+	coalesce((SELECT `exponent` FROM `currency_exponents` WHERE `code` = `expenses`.`currency`), 2)
+	WHEN 0 THEN 1 WHEN 3 THEN 1000 WHEN 4 THEN 10000 ELSE 100
+END, 6)) AS integer);
+--> statement-breakpoint
+ALTER TABLE `expenses` DROP COLUMN `amount`;
\ No newline at end of file
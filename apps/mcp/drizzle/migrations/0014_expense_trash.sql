@@ -0,0 +1,2 @@
+ALTER TABLE `expenses` ADD `deleted_at` text;--> statement-breakpoint
+CREATE INDEX `expenses_deleted_at_idx` ON `expenses` (`deleted_at`);
\ No newline at end of file
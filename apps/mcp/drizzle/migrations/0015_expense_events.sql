@@ -0,0 +1,16 @@
+CREATE TABLE `expense_events` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`ledger_id` integer NOT NULL,
+	`expense_id` integer NOT NULL,
+	`action` text NOT NULL,
+	`actor` text NOT NULL,
+	`source` text NOT NULL,
+	`session_id` text,
+	`before` text,
+	`after` text,
+	`created_at` text DEFAULT (CURRENT_TIMESTAMP) NOT NULL,
+	FOREIGN KEY (`ledger_id`) REFERENCES `ledgers`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `expense_events_ledger_expense_idx` ON `expense_events` (`ledger_id`,`expense_id`);--> statement-breakpoint
+CREATE INDEX `expense_events_pending_idx` ON `expense_events` (`id`) WHERE "expense_events"."after" is null;
\ No newline at end of file
@@ -0,0 +1,72 @@
+-- The remaining money columns move to integer minor units the way
+-- 0013_amount_minor_units.sql moved expenses.amount: add the column (SQLite
+-- needs a default for NOT NULL), backfill it, then drop the old one. The inner
+-- ROUND drops float noise first, as toMinorUnits does
+ALTER TABLE `budgets` ADD `amount_minor` integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+UPDATE `budgets` SET `amount_minor` = CAST(ROUND(ROUND(`amount` * CASE
+	coalesce((SELECT `exponent` FROM `currency_exponents` WHERE `code` = `budgets`.`currency`), 2)
+	WHEN 0 THEN 1 WHEN 3 THEN 1000 WHEN 4 THEN 10000 ELSE 100
+END, 6)) AS integer);
+--> statement-breakpoint
+ALTER TABLE `budgets` DROP COLUMN `amount`;
+--> statement-breakpoint
+ALTER TABLE `recurring_expenses` ADD `amount_minor` integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+UPDATE `recurring_expenses` SET `amount_minor` = CAST(ROUND(ROUND(`amount` * CASE
+	coalesce((SELECT `exponent` FROM `currency_exponents` WHERE `code` = `recurring_expenses`.`currency`), 2)
+	WHEN 0 THEN 1 WHEN 3 THEN 1000 WHEN 4 THEN 10000 ELSE 100
+END, 6)) AS integer);
+--> statement-breakpoint
+ALTER TABLE `recurring_expenses` DROP COLUMN `amount`;
+--> statement-breakpoint
+ALTER TABLE `settlements` ADD `amount_minor` integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+UPDATE `settlements` SET `amount_minor` = CAST(ROUND(ROUND(`amount` * CASE
+	coalesce((SELECT `exponent` FROM `currency_exponents` WHERE `code` = `settlements`.`currency`), 2)
+	WHEN 0 THEN 1 WHEN 3 THEN 1000 WHEN 4 THEN 10000 ELSE 100
+END, 6)) AS integer);
+--> statement-breakpoint
+ALTER TABLE `settlements` DROP COLUMN `amount`;
+--> statement-breakpoint
+ALTER TABLE `expense_splits` ADD `paid_minor` integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `expense_splits` ADD `owed_minor` integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `expense_splits` ADD `value_minor` integer;
+--> statement-breakpoint
+-- Splits are in the currency of their expense. Only exact values are money;
+-- percentages and shares keep two decimals
+UPDATE `expense_splits` SET
+	`paid_minor` = CAST(ROUND(ROUND(`expense_splits`.`paid` * `scale`.`factor`, 6)) AS integer),
+	`owed_minor` = CAST(ROUND(ROUND(`expense_splits`.`owed` * `scale`.`factor`, 6)) AS integer),
+	`value_minor` = CAST(ROUND(ROUND(`expense_splits`.`value` * CASE `expense_splits`.`method`
+		WHEN 'exact' THEN `scale`.`factor` ELSE 100
+	END, 6)) AS integer)
+FROM (
+	SELECT `expenses`.`id` AS `expense_id`, CASE coalesce(`currency_exponents`.`exponent`, 2)
+		WHEN 0 THEN 1 WHEN 3 THEN 1000 WHEN 4 THEN 10000 ELSE 100
+	END AS `factor`
+	FROM `expenses`
+	LEFT JOIN `currency_exponents` ON `currency_exponents`.`code` = `expenses`.`currency`
+) AS `scale`
+WHERE `scale`.`expense_id` = `expense_splits`.`expense_id`;
+--> statement-breakpoint
+ALTER TABLE `expense_splits` DROP COLUMN `paid`;
+--> statement-breakpoint
+ALTER TABLE `expense_splits` DROP COLUMN `owed`;
+--> statement-breakpoint
+ALTER TABLE `expense_splits` DROP COLUMN `value`;
+--> statement-breakpoint
+ALTER TABLE `categorization_rules` ADD `min_amount_minor` integer;
+--> statement-breakpoint
+ALTER TABLE `categorization_rules` ADD `max_amount_minor` integer;
+--> statement-breakpoint
+-- Rules have no currency, so their bounds are kept in hundredths of a unit
+UPDATE `categorization_rules` SET
+	`min_amount_minor` = CAST(ROUND(ROUND(`min_amount` * 100, 6)) AS integer),
+	`max_amount_minor` = CAST(ROUND(ROUND(`max_amount` * 100, 6)) AS integer);
+--> statement-breakpoint
+ALTER TABLE `categorization_rules` DROP COLUMN `min_amount`;
+--> statement-breakpoint
+ALTER TABLE `categorization_rules` DROP COLUMN `max_amount`;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `api_keys` ADD `agent` integer DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,204 @@
+import { drizzle } from "drizzle-orm/d1";
+import { Hono } from "hono";
+import { bearerAuth } from "hono/bearer-auth";
+import { createMiddleware } from "hono/factory";
+import { timingSafeEqual } from "hono/utils/buffer";
+import { z } from "zod";
+import { and, desc, eq, isNull } from "drizzle-orm";
+import * as schema from "./db/schema";
+import type { AppEnv } from "./types";
+
+const API_KEY_PREFIX = "exp_";
+
+const createApiKeySchema = z.object({
+  name: z.string().min(1),
+  scope: z.enum(["read", "write"]).default("read"),
+  // Keys for the chat agent can only be issued with the admin token
+  agent: z.boolean().default(false),
+  // Only honoured for the admin token; regular keys always create keys for their own user
+  userId: z.number().int().optional(),
+});
+
+export async function hashApiKey(key: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  return [...new Uint8Array(digest)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export function generateApiKey() {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const encoded = btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+  return `${API_KEY_PREFIX}${encoded}`;
+}
+
+/**
+ * Authenticates `Authorization: Bearer <key>` against the hashed keys in D1,
+ * or against the `ADMIN_TOKEN` secret. Unknown and revoked keys get a 401.
+ */
+export const authenticate = bearerAuth({
+  realm: "expenses-tracker",
+  noAuthenticationHeaderMessage: { error: "Missing API key" },
+  invalidAuthenticationHeaderMessage: { error: "Malformed Authorization header" },
+  invalidTokenMessage: { error: "Invalid or revoked API key" },
+  verifyToken: async (token, c) => {
+    const adminToken = c.env.ADMIN_TOKEN;
+    if (adminToken && await timingSafeEqual(token, adminToken)) {
+      c.set("userId", null);
+      c.set("isAdmin", true);
+      c.set("scope", "write");
+      c.set("isAgent", false);
+      return true;
+    }
+
+    const db = drizzle(c.env.DB);
+    const [apiKey] = await db.select()
+      .from(schema.apiKeys)
+      .where(and(
+        eq(schema.apiKeys.keyHash, await hashApiKey(token)),
+        isNull(schema.apiKeys.revokedAt),
+      ));
+
+    if (!apiKey) {
+      return false;
+    }
+
+    c.executionCtx.waitUntil(
+      db.update(schema.apiKeys)
+        .set({ lastUsedAt: new Date().toISOString() })
+        .where(eq(schema.apiKeys.id, apiKey.id))
+    );
+
+    c.set("userId", apiKey.userId);
+    c.set("isAdmin", false);
+    c.set("scope", apiKey.scope);
+    c.set("isAgent", apiKey.agent);
+    return true;
+  },
+});
+
+/**
+ * Rejects anything but safe methods for read-only credentials.
+ */
+export const enforceScope = createMiddleware<AppEnv>(async (c, next) => {
+  const isSafeMethod = ["GET", "HEAD", "OPTIONS"].includes(c.req.method);
+
+  if (!isSafeMethod && c.get("scope") !== "write") {
+    return c.json({ error: "API key does not have write scope" }, 403);
+  }
+
+  await next();
+});
+
+export const requireAdmin = createMiddleware<AppEnv>(async (c, next) => {
+  if (!c.get("isAdmin")) {
+    return c.json({ error: "Admin token required" }, 403);
+  }
+
+  await next();
+});
+
+export const apiKeyRoutes = new Hono<AppEnv>();
+
+apiKeyRoutes.get("/keys", async (c) => {
+  const db = drizzle(c.env.DB);
+  const userId = c.get("userId");
+
+  const columns = {
+    id: schema.apiKeys.id,
+    userId: schema.apiKeys.userId,
+    name: schema.apiKeys.name,
+    prefix: schema.apiKeys.prefix,
+    scope: schema.apiKeys.scope,
+    agent: schema.apiKeys.agent,
+    lastUsedAt: schema.apiKeys.lastUsedAt,
+    revokedAt: schema.apiKeys.revokedAt,
+    createdAt: schema.apiKeys.createdAt,
+  };
+
+  const keys = userId === null
+    ? await db.select(columns).from(schema.apiKeys).orderBy(desc(schema.apiKeys.createdAt))
+    : await db.select(columns)
+      .from(schema.apiKeys)
+      .where(eq(schema.apiKeys.userId, userId))
+      .orderBy(desc(schema.apiKeys.createdAt));
+
+  return c.json({ keys });
+});
+
+apiKeyRoutes.post("/keys", async (c) => {
+  const db = drizzle(c.env.DB);
+  const data = await c.req.json();
+
+  try {
+    const validatedData = createApiKeySchema.parse(data);
+    const userId = c.get("isAdmin") ? validatedData.userId : c.get("userId");
+
+    if (userId === undefined || userId === null) {
+      return c.json({ error: "userId is required when using the admin token" }, 400);
+    }
+
+    if (validatedData.agent && !c.get("isAdmin")) {
+      return c.json({ error: "Admin token required to issue agent keys" }, 403);
+    }
+
+    const [user] = await db.select({ id: schema.users.id })
+      .from(schema.users)
+      .where(eq(schema.users.id, userId));
+
+    if (!user) {
+      return c.json({ error: "User not found" }, 404);
+    }
+
+    const key = generateApiKey();
+    const [apiKey] = await db.insert(schema.apiKeys).values({
+      userId,
+      name: validatedData.name,
+      scope: validatedData.scope,
+      agent: validatedData.agent,
+      keyHash: await hashApiKey(key),
+      prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+    }).returning({
+      id: schema.apiKeys.id,
+      userId: schema.apiKeys.userId,
+      name: schema.apiKeys.name,
+      prefix: schema.apiKeys.prefix,
+      scope: schema.apiKeys.scope,
+      agent: schema.apiKeys.agent,
+      createdAt: schema.apiKeys.createdAt,
+    });
+
+    // The plaintext key is never stored and cannot be retrieved again
+    return c.json({ apiKey, key }, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: "Validation error", details: error.errors }, 400);
+    }
+    return c.json({ error: "Failed to create API key" }, 500);
+  }
+});
+
+apiKeyRoutes.delete("/keys/:id", async (c) => {
+  const db = drizzle(c.env.DB);
+  const id = Number.parseInt(c.req.param("id"));
+  const userId = c.get("userId");
+
+  const conditions = [eq(schema.apiKeys.id, id), isNull(schema.apiKeys.revokedAt)];
+  if (userId !== null) {
+    conditions.push(eq(schema.apiKeys.userId, userId));
+  }
+
+  const [revokedKey] = await db.update(schema.apiKeys)
+    .set({ revokedAt: new Date().toISOString() })
+    .where(and(...conditions))
+    .returning({ id: schema.apiKeys.id });
+
+  if (!revokedKey) {
+    return c.json({ error: "API key not found" }, 404);
+  }
+
+  return c.json({ message: "API key revoked successfully" });
+});
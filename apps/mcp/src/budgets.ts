@@ -0,0 +1,404 @@
+import { drizzle } from "drizzle-orm/d1";
+import { Hono } from "hono";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { and, eq, gte, isNull, lt, sql } from "drizzle-orm";
+import { formatMoney, fromMinorUnits, parseMoney, toMinorUnits, withAmount } from "@cf-hackathon/money";
+import * as schema from "./db/schema";
+import { inCategory, requireCategory } from "./categories";
+import { currencyCode, loadRateTable, missingRateSchema, type MissingRate } from "./currency";
+import { notDeleted } from "./tags";
+import type { AppEnv, Database } from "./types";
+
+type Budget = typeof schema.budgets.$inferSelect;
+type BudgetPeriod = Budget["period"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const setBudgetSchema = z.object({
+  category: z.string().min(1).optional().describe("Category the budget applies to (omit for an overall budget)"),
+  period: z.enum(["weekly", "monthly", "yearly"]).default("monthly").describe("Budget period"),
+  amount: z.number().positive().describe("Budget amount per period"),
+  currency: currencyCode.default("USD").describe("ISO 4217 currency code"),
+});
+
+const getBudgetStatusSchema = z.object({
+  category: z.string().optional().describe("Only report budgets for this category"),
+  date: z.string().optional().describe("Report the period containing this date (ISO string, defaults to now)"),
+});
+
+const budgetSchema = z.object({
+  id: z.number(),
+  ledgerId: z.number(),
+  category: z.string().nullable(),
+  period: z.enum(["weekly", "monthly", "yearly"]),
+  amount: z.number(),
+  amountMinor: z.number().int(),
+  currency: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const budgetStatusSchema = z.object({
+  budget: budgetSchema,
+  periodStart: z.string(),
+  periodEnd: z.string(),
+  expenseCount: z.number(),
+  spent: z.number(),
+  remaining: z.number(),
+  percent: z.number(),
+  projectedSpend: z.number(),
+  status: z.enum(["ok", "warning", "exceeded"]),
+  // Expenses in other currencies without a rate on their date; they are not in `spent`
+  missingRates: z.array(missingRateSchema),
+});
+
+/**
+ * Returns the [start, end) UTC bounds of the budget period containing `date`.
+ * Weeks start on Monday.
+ */
+export function getPeriodBounds(period: BudgetPeriod, date: Date) {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  if (period === "yearly") {
+    return { start: new Date(Date.UTC(year, 0, 1)), end: new Date(Date.UTC(year + 1, 0, 1)) };
+  }
+
+  if (period === "monthly") {
+    return { start: new Date(Date.UTC(year, month, 1)), end: new Date(Date.UTC(year, month + 1, 1)) };
+  }
+
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  const start = new Date(Date.UTC(year, month, date.getUTCDate() - daysSinceMonday));
+  return { start, end: new Date(start.getTime() + 7 * DAY_MS) };
+}
+
+async function getBudgetStatus(db: Database, budget: Budget & { amount: number }, date: Date) {
+  const { start, end } = getPeriodBounds(budget.period, date);
+
+  const conditions = [
+    eq(schema.expenses.ledgerId, budget.ledgerId),
+    notDeleted,
+    gte(schema.expenses.date, start.toISOString().slice(0, 10)),
+    lt(schema.expenses.date, end.toISOString().slice(0, 10)),
+  ];
+
+  if (budget.category) {
+    conditions.push(await inCategory(db, budget.ledgerId, budget.category));
+  }
+
+  // Grouped by currency and day so other currencies convert at their own rate
+  const day = sql<string>`substr(${schema.expenses.date}, 1, 10)`;
+  const rows = await db.select({
+    currency: schema.expenses.currency,
+    day,
+    sumMinor: sql<number>`sum(${schema.expenses.amountMinor})`,
+    ids: sql<string>`json_group_array(${schema.expenses.id})`.mapWith((value: string) => JSON.parse(value) as number[]),
+  })
+    .from(schema.expenses)
+    .where(and(...conditions))
+    .groupBy(schema.expenses.currency, day);
+
+  const latestDay = rows.reduce((max, row) => (row.day > max ? row.day : max), "");
+  const rates = rows.some((row) => row.currency !== budget.currency)
+    ? await loadRateTable(db, latestDay)
+    : undefined;
+
+  // Expenses without a rate are left out of the spend and listed instead
+  let spentMinor = 0;
+  let count = 0;
+  const missingRates: MissingRate[] = [];
+  for (const row of rows) {
+    const rate = row.currency === budget.currency ? 1 : rates?.rate(row.currency, budget.currency, row.day);
+    if (rate === undefined) {
+      missingRates.push(...row.ids.map((expenseId) => ({ expenseId, currency: row.currency, date: row.day })));
+      continue;
+    }
+    spentMinor += row.currency === budget.currency
+      ? row.sumMinor
+      : toMinorUnits(fromMinorUnits(row.sumMinor, row.currency) * rate, budget.currency);
+    count += row.ids.length;
+  }
+
+  const totalDays = (end.getTime() - start.getTime()) / DAY_MS;
+  const elapsedDays = Math.min(Math.max((date.getTime() - start.getTime()) / DAY_MS, 1), totalDays);
+  const percent = (spentMinor / budget.amountMinor) * 100;
+
+  return {
+    budget,
+    periodStart: start.toISOString().slice(0, 10),
+    periodEnd: end.toISOString().slice(0, 10),
+    expenseCount: count,
+    spent: fromMinorUnits(spentMinor, budget.currency),
+    remaining: fromMinorUnits(budget.amountMinor - spentMinor, budget.currency),
+    percent: Math.round(percent * 10) / 10,
+    projectedSpend: fromMinorUnits(Math.round((spentMinor / elapsedDays) * totalDays), budget.currency),
+    status: percent >= 100 ? "exceeded" : percent >= 80 ? "warning" : "ok",
+    missingRates,
+  };
+}
+
+export async function listBudgets(db: Database, ledgerId: number) {
+  const budgets = await db.select().from(schema.budgets).where(eq(schema.budgets.ledgerId, ledgerId));
+  return budgets.map(withAmount);
+}
+
+/**
+ * Creates or replaces the budget for a category (or the whole ledger) and period.
+ */
+export async function setBudget(db: Database, ledgerId: number, data: z.infer<typeof setBudgetSchema>) {
+  const category = data.category ? (await requireCategory(db, ledgerId, data.category)).name : null;
+  const amountMinor = parseMoney(data.amount, data.currency);
+  const [existing] = await db.select({ id: schema.budgets.id })
+    .from(schema.budgets)
+    .where(and(
+      eq(schema.budgets.ledgerId, ledgerId),
+      eq(schema.budgets.period, data.period),
+      category === null ? isNull(schema.budgets.category) : eq(schema.budgets.category, category),
+    ));
+
+  if (existing) {
+    const [updatedBudget] = await db.update(schema.budgets)
+      .set({ amountMinor, currency: data.currency, updatedAt: sql`(CURRENT_TIMESTAMP)` })
+      .where(eq(schema.budgets.id, existing.id))
+      .returning();
+    return withAmount(updatedBudget);
+  }
+
+  const [newBudget] = await db.insert(schema.budgets).values({
+    ledgerId,
+    category,
+    period: data.period,
+    amountMinor,
+    currency: data.currency,
+  }).returning();
+  return withAmount(newBudget);
+}
+
+export async function getBudgetStatuses(
+  db: Database,
+  ledgerId: number,
+  { category, date }: z.infer<typeof getBudgetStatusSchema> = {},
+) {
+  const referenceDate = date ? new Date(date) : new Date();
+  if (Number.isNaN(referenceDate.getTime())) {
+    throw new Error(`Invalid date: ${date}`);
+  }
+
+  const budgets = await listBudgets(db, ledgerId);
+  const matching = category
+    ? budgets.filter((budget) => budget.category === category)
+    : budgets;
+
+  return Promise.all(matching.map((budget) => getBudgetStatus(db, budget, referenceDate)));
+}
+
+/**
+ * Registers the budget tools on an MCP server. Returns the tools that mutate
+ * data so the caller can disable them for read-only credentials.
+ */
+export function registerBudgetTools(server: McpServer, db: Database, ledgerId: number): RegisteredTool[] {
+  const setBudgetTool = server.registerTool(
+    "setBudget",
+    {
+      description: "Create or replace a spending budget for a category, or for all spending when no category is given",
+      inputSchema: setBudgetSchema.shape,
+      outputSchema: { budget: budgetSchema },
+    },
+    async (args) => {
+      try {
+        const budget = await setBudget(db, ledgerId, args);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Budget saved successfully: ${formatMoney(budget.amountMinor, budget.currency)} ${budget.period} for ${budget.category ?? "all spending"} (ID ${budget.id})`,
+            },
+          ],
+          structuredContent: { budget },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error saving budget: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    "getBudgets",
+    {
+      description: "List all budgets",
+      outputSchema: { budgets: z.array(budgetSchema) },
+    },
+    async () => {
+      try {
+        const budgets = await listBudgets(db, ledgerId);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Found ${budgets.length} budgets`,
+            },
+          ],
+          structuredContent: { budgets },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error retrieving budgets: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    "getBudgetStatus",
+    {
+      description: "Report spent, remaining, percent used and projected end-of-period spend for each budget. Expenses in other currencies are converted at the rate on their date; those without a rate are listed in missingRates and left out. Status is \"warning\" from 80% and \"exceeded\" from 100%.",
+      inputSchema: getBudgetStatusSchema.shape,
+      outputSchema: { statuses: z.array(budgetStatusSchema) },
+    },
+    async (args) => {
+      try {
+        const statuses = await getBudgetStatuses(db, ledgerId, args);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: statuses.map((status) => `${status.budget.category ?? "All spending"} (${status.budget.period}): ${status.percent}% used, ${status.status}${status.missingRates.length > 0 ? ` (no exchange rate to ${status.budget.currency} for ${status.missingRates.length} expenses)` : ""}`).join("\n") || "No budgets set",
+            },
+          ],
+          structuredContent: { statuses },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error computing budget status: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  const deleteBudgetTool = server.registerTool(
+    "deleteBudget",
+    {
+      description: "Delete a budget",
+      inputSchema: {
+        id: z.number().describe("Budget ID to delete"),
+      },
+      outputSchema: { budget: budgetSchema },
+    },
+    async ({ id }) => {
+      try {
+        const [deletedBudget] = await db.delete(schema.budgets)
+          .where(and(eq(schema.budgets.id, id), eq(schema.budgets.ledgerId, ledgerId)))
+          .returning();
+
+        if (!deletedBudget) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Budget with ID ${id} not found`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Budget ${id} deleted successfully`,
+            },
+          ],
+          structuredContent: { budget: withAmount(deletedBudget) },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error deleting budget: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  return [setBudgetTool, deleteBudgetTool];
+}
+
+export const budgetRoutes = new Hono<AppEnv>();
+
+budgetRoutes.get("/", async (c) => {
+  const db = drizzle(c.env.DB);
+  const budgets = await listBudgets(db, c.get("ledgerId"));
+  return c.json({ budgets });
+});
+
+budgetRoutes.post("/", async (c) => {
+  const db = drizzle(c.env.DB);
+  const data = await c.req.json();
+
+  try {
+    const budget = await setBudget(db, c.get("ledgerId"), setBudgetSchema.parse(data));
+    return c.json({ budget }, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: "Validation error", details: error.errors }, 400);
+    }
+    return c.json({ error: error instanceof Error ? error.message : "Failed to save budget" }, 400);
+  }
+});
+
+budgetRoutes.get("/status", async (c) => {
+  const db = drizzle(c.env.DB);
+
+  try {
+    const query = getBudgetStatusSchema.parse(c.req.query());
+    const statuses = await getBudgetStatuses(db, c.get("ledgerId"), query);
+    return c.json({ statuses });
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : "Failed to compute budget status" }, 400);
+  }
+});
+
+budgetRoutes.delete("/:id", async (c) => {
+  const db = drizzle(c.env.DB);
+  const id = Number.parseInt(c.req.param("id"));
+
+  const [deletedBudget] = await db.delete(schema.budgets)
+    .where(and(eq(schema.budgets.id, id), eq(schema.budgets.ledgerId, c.get("ledgerId"))))
+    .returning();
+
+  if (!deletedBudget) {
+    return c.json({ error: "Budget not found" }, 404);
+  }
+
+  return c.json({ message: "Budget deleted successfully" });
+});
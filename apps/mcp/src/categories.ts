@@ -0,0 +1,513 @@
+import { drizzle } from "drizzle-orm/d1";
+import { Hono } from "hono";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { and, eq, inArray } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import * as schema from "./db/schema";
+import { completeExpenseEvents, recordExpenseEvents, requestActor } from "./history";
+import type { Actor, AppEnv, Database } from "./types";
+
+type Category = typeof schema.categories.$inferSelect;
+
+const PATH_SEPARATOR = " > ";
+
+const categoryName = z.string().trim().min(1);
+
+export const createCategorySchema = z.object({
+  name: categoryName.describe("Category name"),
+  description: z.string().optional().describe("What belongs in the category"),
+  parent: categoryName.optional().describe("Parent category (omit for a top-level category)"),
+});
+
+const updateCategorySchema = z.object({
+  name: categoryName.optional(),
+  parent: categoryName.nullable().optional(),
+});
+
+const mergeCategoriesSchema = z.object({
+  sources: z.array(categoryName).min(1).describe("Categories to merge away"),
+  target: categoryName.describe("Category to merge into (created at the top level if it doesn't exist)"),
+});
+
+export const categorySchema = z.object({
+  id: z.number(),
+  ledgerId: z.number(),
+  name: z.string(),
+  description: z.string().nullable(),
+  parentId: z.number().nullable(),
+  // Names from the top-level category down, e.g. "Food > Groceries"
+  path: z.string(),
+  depth: z.number(),
+  createdAt: z.string(),
+});
+
+export const categoryTotalSchema = z.object({
+  name: z.string(),
+  path: z.string(),
+  depth: z.number(),
+  // Expenses filed directly under the category; amounts are null when they
+  // are in several currencies
+  total: z.number().nullable(),
+  count: z.number(),
+  // Including every subcategory
+  subtotal: z.number().nullable(),
+  subtotalCount: z.number(),
+});
+
+/**
+ * Lists the ledger's categories depth-first, each followed by its
+ * subcategories, with their path from the top of the tree.
+ */
+export async function listCategories(db: Database, ledgerId: number) {
+  const rows = await db.select()
+    .from(schema.categories)
+    .where(eq(schema.categories.ledgerId, ledgerId));
+
+  const children = new Map<number | null, Category[]>();
+  for (const row of rows) {
+    children.set(row.parentId, [...(children.get(row.parentId) ?? []), row]);
+  }
+
+  const ordered: Array<Category & { path: string; depth: number }> = [];
+  const visit = (parentId: number | null, path: string[]) => {
+    const siblings = (children.get(parentId) ?? []).sort((a, b) => a.name.localeCompare(b.name));
+    for (const category of siblings) {
+      const categoryPath = [...path, category.name];
+      ordered.push({ ...category, path: categoryPath.join(PATH_SEPARATOR), depth: path.length });
+      visit(category.id, categoryPath);
+    }
+  };
+  visit(null, []);
+  return ordered;
+}
+
+async function findCategory(db: Database, ledgerId: number, name: string) {
+  const [category] = await db.select()
+    .from(schema.categories)
+    .where(and(eq(schema.categories.ledgerId, ledgerId), eq(schema.categories.name, name.trim())));
+  return category;
+}
+
+/**
+ * Throws unless the ledger has the named category. Expenses, recurring
+ * expenses and budgets can only be filed under existing categories.
+ */
+export async function requireCategory(db: Database, ledgerId: number, name: string) {
+  const category = await findCategory(db, ledgerId, name);
+  if (!category) {
+    throw new Error(`Category "${name}" doesn't exist; create it first or use an existing category`);
+  }
+  return category;
+}
+
+/**
+ * IDs of a category and everything below it, from the depth-first list
+ * `listCategories` returns
+ */
+function subtreeOf(categories: Awaited<ReturnType<typeof listCategories>>, id: number) {
+  const ids = new Set([id]);
+  // Depth-first order puts every category after its parent
+  for (const category of categories) {
+    if (category.parentId !== null && ids.has(category.parentId)) {
+      ids.add(category.id);
+    }
+  }
+  return ids;
+}
+
+async function subtreeIds(db: Database, ledgerId: number, id: number) {
+  return subtreeOf(await listCategories(db, ledgerId), id);
+}
+
+/**
+ * Matches expenses filed under the named category or any category below it,
+ * the way summaries roll subcategories up into their parents
+ */
+export async function inCategory(db: Database, ledgerId: number, name: string) {
+  const categories = await listCategories(db, ledgerId);
+  const category = categories.find((candidate) => candidate.name === name.trim());
+  if (!category) {
+    return eq(schema.expenses.category, name);
+  }
+
+  const ids = subtreeOf(categories, category.id);
+  return inArray(schema.expenses.category, categories.filter(({ id }) => ids.has(id)).map((candidate) => candidate.name));
+}
+
+export async function createCategory(db: Database, ledgerId: number, data: z.infer<typeof createCategorySchema>) {
+  if (await findCategory(db, ledgerId, data.name)) {
+    throw new Error(`Category "${data.name}" already exists`);
+  }
+  const parent = data.parent ? await requireCategory(db, ledgerId, data.parent) : undefined;
+
+  const [category] = await db.insert(schema.categories).values({
+    ledgerId,
+    name: data.name,
+    description: data.description,
+    parentId: parent?.id,
+  }).returning();
+  return category;
+}
+
+/**
+ * Renames a category everywhere it is used, in a single batch. Renaming onto
+ * a category that already exists is refused; that is what
+ * `mergeCategories` is for.
+ */
+export async function renameCategory(db: Database, ledgerId: number, from: string, to: string, actor: Actor) {
+  const category = await requireCategory(db, ledgerId, from);
+  const name = to.trim();
+
+  const existing = await findCategory(db, ledgerId, name);
+  if (existing && existing.id !== category.id) {
+    throw new Error(`Category "${name}" already exists; merge the categories instead`);
+  }
+
+  // The category goes first so the triggers guarding expenses, recurring
+  // expenses, budgets and categorization rules accept the new name
+  await db.batch([
+    db.update(schema.categories).set({ name }).where(eq(schema.categories.id, category.id)),
+    ...reassignStatements(db, ledgerId, [category.name], name, actor),
+  ]);
+
+  return { ...category, name };
+}
+
+function reassignStatements(db: Database, ledgerId: number, from: string[], to: string, actor: Actor) {
+  const expenses = and(eq(schema.expenses.ledgerId, ledgerId), inArray(schema.expenses.category, from))!;
+  return [
+    recordExpenseEvents(db, actor, "update", expenses),
+    db.update(schema.expenses)
+      .set({ category: to })
+      .where(expenses),
+    db.update(schema.recurringExpenses)
+      .set({ category: to })
+      .where(and(eq(schema.recurringExpenses.ledgerId, ledgerId), inArray(schema.recurringExpenses.category, from))),
+    db.update(schema.budgets)
+      .set({ category: to })
+      .where(and(eq(schema.budgets.ledgerId, ledgerId), inArray(schema.budgets.category, from))),
+    db.update(schema.categorizationRules)
+      .set({ category: to })
+      .where(and(eq(schema.categorizationRules.ledgerId, ledgerId), inArray(schema.categorizationRules.category, from))),
+    completeExpenseEvents(db),
+  ] as const;
+}
+
+/**
+ * Moves every expense, recurring expense, budget and categorization rule
+ * filed under one of `sources` onto `target` (creating it if needed), hands
+ * the sources' subcategories to the target and deletes the sources, in a
+ * single batch.
+ */
+export async function mergeCategories(db: Database, ledgerId: number, sources: string[], target: string, actor: Actor) {
+  const targetName = target.trim();
+  const sourceNames = [...new Set(sources.map((name) => name.trim()))].filter((name) => name !== targetName);
+  if (sourceNames.length === 0) {
+    throw new Error("Provide at least one source category other than the target");
+  }
+
+  const sourceCategories = await db.select()
+    .from(schema.categories)
+    .where(and(eq(schema.categories.ledgerId, ledgerId), inArray(schema.categories.name, sourceNames)));
+
+  const missing = sourceNames.filter((name) => !sourceCategories.some((category) => category.name === name));
+  if (missing.length > 0) {
+    throw new Error(`Categories not found: ${missing.join(", ")}`);
+  }
+
+  let into = await findCategory(db, ledgerId, targetName);
+  if (into) {
+    for (const source of sourceCategories) {
+      if ((await subtreeIds(db, ledgerId, source.id)).has(into.id)) {
+        throw new Error(`"${targetName}" is a subcategory of "${source.name}"; move it out first`);
+      }
+    }
+  } else {
+    into = await createCategory(db, ledgerId, { name: targetName });
+  }
+
+  const sourceIds = sourceCategories.map((category) => category.id);
+  const [first, ...rest]: BatchItem<"sqlite">[] = [
+    ...reassignStatements(db, ledgerId, sourceNames, targetName, actor),
+    db.update(schema.categories)
+      .set({ parentId: into.id })
+      .where(inArray(schema.categories.parentId, sourceIds)),
+    db.delete(schema.categories).where(inArray(schema.categories.id, sourceIds)),
+  ];
+  await db.batch([first, ...rest]);
+
+  return { merged: sourceNames, into };
+}
+
+/**
+ * Moves a category, with its subcategories, under a new parent, or to the
+ * top level when `parent` is null.
+ */
+export async function moveCategory(db: Database, ledgerId: number, name: string, parent: string | null) {
+  const category = await requireCategory(db, ledgerId, name);
+  const newParent = parent === null ? undefined : await requireCategory(db, ledgerId, parent);
+
+  if (newParent && (await subtreeIds(db, ledgerId, category.id)).has(newParent.id)) {
+    throw new Error(`Can't move "${category.name}" under itself or one of its subcategories`);
+  }
+
+  const [moved] = await db.update(schema.categories)
+    .set({ parentId: newParent?.id ?? null })
+    .where(eq(schema.categories.id, category.id))
+    .returning();
+  return moved;
+}
+
+/**
+ * Rolls per-category totals up the category tree. Returns the categories
+ * with any spending in or below them, depth-first, each with its own total
+ * and the subtotal including its subcategories.
+ */
+export function rollUpCategoryTotals(
+  categories: Awaited<ReturnType<typeof listCategories>>,
+  totals: Record<string, { total: number | null; count: number }>,
+) {
+  const rows = categories.map((category) => {
+    const { total, count } = totals[category.name] ?? { total: 0, count: 0 };
+    return {
+      id: category.id,
+      parentId: category.parentId,
+      name: category.name,
+      path: category.path,
+      depth: category.depth,
+      total,
+      count,
+      subtotal: total,
+      subtotalCount: count,
+    };
+  });
+
+  // Children come after their parents, so walking backwards adds every
+  // subtree to its parent once it is complete
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  for (const row of [...rows].reverse()) {
+    const parent = row.parentId === null ? undefined : byId.get(row.parentId);
+    if (parent) {
+      parent.subtotal = parent.subtotal === null || row.subtotal === null ? null : parent.subtotal + row.subtotal;
+      parent.subtotalCount += row.subtotalCount;
+    }
+  }
+
+  return rows
+    .filter((row) => row.subtotalCount > 0)
+    .map(({ id: _, parentId: __, ...row }) => row);
+}
+
+/**
+ * Registers the category management tools on an MCP server. Returns the tools
+ * that mutate data so the caller can disable them for read-only credentials.
+ */
+export function registerCategoryTools(server: McpServer, db: Database, ledgerId: number, actor: Actor): RegisteredTool[] {
+  const createCategoryTool = server.registerTool(
+    "createCategory",
+    {
+      description: "Create a category, optionally under a parent category. Expenses can only be filed under existing categories.",
+      inputSchema: createCategorySchema.shape,
+      outputSchema: { category: categorySchema.omit({ path: true, depth: true }) },
+    },
+    async (args) => {
+      try {
+        const category = await createCategory(db, ledgerId, args);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Category "${category.name}" created${args.parent ? ` under "${args.parent}"` : ""} (ID ${category.id})`,
+            },
+          ],
+          structuredContent: { category },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error creating category: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  const renameCategoryTool = server.registerTool(
+    "renameCategory",
+    {
+      description: "Rename a category on every expense, recurring expense, budget and categorization rule that uses it",
+      inputSchema: {
+        from: categoryName.describe("Current category name"),
+        to: categoryName.describe("New category name (must not already exist; use mergeCategories otherwise)"),
+      },
+      outputSchema: { category: categorySchema.omit({ path: true, depth: true }) },
+    },
+    async ({ from, to }) => {
+      try {
+        const category = await renameCategory(db, ledgerId, from, to, actor);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Category "${from}" renamed to "${category.name}"`,
+            },
+          ],
+          structuredContent: { category },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error renaming category: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  const mergeCategoriesTool = server.registerTool(
+    "mergeCategories",
+    {
+      description: "Merge one or more categories into a target category, refiling their expenses, recurring expenses, budgets, categorization rules and subcategories and deleting the source categories",
+      inputSchema: mergeCategoriesSchema.shape,
+      outputSchema: { merged: z.array(z.string()), into: categorySchema.omit({ path: true, depth: true }) },
+    },
+    async ({ sources, target }) => {
+      try {
+        const result = await mergeCategories(db, ledgerId, sources, target, actor);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Merged ${result.merged.join(", ")} into "${result.into.name}"`,
+            },
+          ],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error merging categories: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  const moveCategoryTool = server.registerTool(
+    "moveCategory",
+    {
+      description: "Move a category, with its subcategories, under another category or back to the top level",
+      inputSchema: {
+        name: categoryName.describe("Category to move"),
+        parent: categoryName.nullable().describe("New parent category, or null for the top level"),
+      },
+      outputSchema: { category: categorySchema.omit({ path: true, depth: true }) },
+    },
+    async ({ name, parent }) => {
+      try {
+        const category = await moveCategory(db, ledgerId, name, parent);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: parent ? `Category "${category.name}" moved under "${parent}"` : `Category "${category.name}" moved to the top level`,
+            },
+          ],
+          structuredContent: { category },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error moving category: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  return [createCategoryTool, renameCategoryTool, mergeCategoriesTool, moveCategoryTool];
+}
+
+export const categoryRoutes = new Hono<AppEnv>();
+
+categoryRoutes.get("/", async (c) => {
+  const db = drizzle(c.env.DB);
+  const categories = await listCategories(db, c.get("ledgerId"));
+  return c.json({ categories });
+});
+
+categoryRoutes.post("/", async (c) => {
+  const db = drizzle(c.env.DB);
+  const data = await c.req.json();
+
+  try {
+    const category = await createCategory(db, c.get("ledgerId"), createCategorySchema.parse(data));
+    return c.json({ category }, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: "Validation error", details: error.errors }, 400);
+    }
+    return c.json({ error: error instanceof Error ? error.message : "Failed to create category" }, 400);
+  }
+});
+
+// Renames the category and/or moves it (`parent: null` for the top level)
+categoryRoutes.patch("/:name", async (c) => {
+  const db = drizzle(c.env.DB);
+  const data = await c.req.json();
+
+  try {
+    const { name, parent } = updateCategorySchema.parse(data);
+    let category: Category = await requireCategory(db, c.get("ledgerId"), c.req.param("name"));
+
+    if (name !== undefined) {
+      category = await renameCategory(db, c.get("ledgerId"), category.name, name, requestActor(c, "rest"));
+    }
+    if (parent !== undefined) {
+      category = await moveCategory(db, c.get("ledgerId"), category.name, parent);
+    }
+    return c.json({ category });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: "Validation error", details: error.errors }, 400);
+    }
+    return c.json({ error: error instanceof Error ? error.message : "Failed to update category" }, 400);
+  }
+});
+
+categoryRoutes.post("/merge", async (c) => {
+  const db = drizzle(c.env.DB);
+  const data = await c.req.json();
+
+  try {
+    const { sources, target } = mergeCategoriesSchema.parse(data);
+    const result = await mergeCategories(db, c.get("ledgerId"), sources, target, requestActor(c, "rest"));
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: "Validation error", details: error.errors }, 400);
+    }
+    return c.json({ error: error instanceof Error ? error.message : "Failed to merge categories" }, 400);
+  }
+});
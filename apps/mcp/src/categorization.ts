@@ -0,0 +1,603 @@
+import { drizzle } from "drizzle-orm/d1";
+import { Hono } from "hono";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { and, asc, desc, eq, gte, inArray, lte } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import { currencyExponent, withAmount } from "@cf-hackathon/money";
+import * as schema from "./db/schema";
+import { requireCategory } from "./categories";
+import { completeExpenseEvents, recordExpenseEvents, requestActor } from "./history";
+import type { ExpensesChangedNotifier } from "./resources";
+import { notDeleted } from "./tags";
+import type { Actor, AppEnv, Database } from "./types";
+
+type Rule = typeof schema.categorizationRules.$inferSelect;
+
+type RuleConditions = {
+  [K in "descriptionContains" | "descriptionPattern" | "merchant" | "paymentMethod" | "minAmountMinor" | "maxAmountMinor"]?: Rule[K];
+};
+
+type Categorizable = { description: string; amountMinor?: number; currency: string; paymentMethod?: string | null };
+
+// Rules have no currency, so their amount bounds are stored in hundredths of a
+// unit of whatever currency the expense is in
+const RULE_AMOUNT_SCALE = 100;
+
+// Most changes listed by testRule and recategorize; the counts cover all of them
+const CHANGES_LIMIT = 100;
+
+// Longest descriptionPattern a rule can have
+const MAX_PATTERN_LENGTH = 100;
+
+/**
+ * Why a description pattern can't be used, if it can't. Rules run on every
+ * new expense, so besides invalid patterns this rejects long ones and nested
+ * quantifiers like (a+)+ or (\w*\s?)*, which can backtrack for far longer than
+ * a request may run.
+ */
+function patternProblem(pattern: string) {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `Regular expressions can be at most ${MAX_PATTERN_LENGTH} characters`;
+  }
+  try {
+    new RegExp(pattern, "i");
+  } catch {
+    return "Invalid regular expression";
+  }
+
+  // Whether each open group contains a quantifier, and whether the last atom
+  // was a group that does
+  const groups: boolean[] = [];
+  let quantifiedGroup = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const quantifier = "*+?".includes(char) ? char : pattern.slice(i).match(/^\{\d+(,\d*)?\}/)?.[0];
+
+    if (quantifier) {
+      if (quantifiedGroup) {
+        return "Nested quantifiers like (a+)+ aren't allowed";
+      }
+      if (groups.length > 0) groups[groups.length - 1] = true;
+      i += quantifier.length - 1;
+      // A lazy quantifier's "?" belongs to it
+      if (pattern[i + 1] === "?") i++;
+      continue;
+    }
+
+    quantifiedGroup = false;
+    if (char === "\\") {
+      i++;
+    } else if (char === "[") {
+      // Quantifiers inside a character class are literal
+      for (i++; i < pattern.length && pattern[i] !== "]"; i++) {
+        if (pattern[i] === "\\") i++;
+      }
+    } else if (char === "(") {
+      groups.push(false);
+      // Skip the "?:", "?=", "?!", "?<=", "?<!" or "?<name>" that starts a special group
+      if (pattern[i + 1] === "?") {
+        i = pattern[i + 2] === "<" && !"=!".includes(pattern[i + 3]) ? pattern.indexOf(">", i) : i + (pattern[i + 2] === "<" ? 3 : 2);
+      }
+    } else if (char === ")") {
+      quantifiedGroup = groups.pop() ?? false;
+      if (quantifiedGroup && groups.length > 0) groups[groups.length - 1] = true;
+    }
+  }
+  return undefined;
+}
+
+const ruleConditionsSchema = z.object({
+  descriptionContains: z.string().trim().min(1).optional().describe("Match descriptions containing this text (case-insensitive)"),
+  descriptionPattern: z.string().min(1).refine((pattern) => !patternProblem(pattern), (pattern) => ({ message: patternProblem(pattern) })).optional()
+    .describe("Match descriptions against this regular expression (case-insensitive; at most 100 characters, no nested quantifiers)"),
+  merchant: z.string().trim().min(1).optional().describe("Match descriptions starting with this merchant name (case-insensitive)"),
+  paymentMethod: z.string().trim().min(1).optional().describe("Match this payment method (case-insensitive)"),
+  minAmount: z.number().nonnegative().optional().describe("Match amounts of at least this much"),
+  maxAmount: z.number().nonnegative().optional().describe("Match amounts of at most this much"),
+});
+
+export const createRuleSchema = ruleConditionsSchema.extend({
+  category: z.string().trim().min(1).describe("Category for matching expenses"),
+  priority: z.number().int().default(0).describe("Rules with a higher priority are tried first"),
+});
+
+export const testRuleSchema = ruleConditionsSchema.extend({
+  id: z.number().int().positive().optional().describe("Saved rule to test; omit to test the rule described by the other fields"),
+  category: z.string().trim().min(1).optional().describe("Category for matching expenses (required without id)"),
+});
+
+export const recategorizeSchema = z.object({
+  categories: z.array(z.string().min(1)).optional().describe("Only recategorize expenses currently in these categories, e.g. [\"Other\"]"),
+  startDate: z.string().optional().describe("Only recategorize expenses from this date (ISO format)"),
+  endDate: z.string().optional().describe("Only recategorize expenses up to this date (ISO format)"),
+  dryRun: z.boolean().default(false).describe("Only report the changes without saving them"),
+});
+
+export const ruleSchema = z.object({
+  id: z.number(),
+  ledgerId: z.number(),
+  category: z.string(),
+  priority: z.number(),
+  descriptionContains: z.string().nullable(),
+  descriptionPattern: z.string().nullable(),
+  merchant: z.string().nullable(),
+  paymentMethod: z.string().nullable(),
+  minAmount: z.number().nullable(),
+  maxAmount: z.number().nullable(),
+  createdAt: z.string(),
+});
+
+const categoryChangeSchema = z.object({
+  id: z.number(),
+  description: z.string(),
+  amount: z.number(),
+  currency: z.string(),
+  date: z.string(),
+  from: z.string(),
+  to: z.string(),
+});
+
+const categoryChangesSchema = {
+  // Expenses the rules match, whether or not their category changes
+  matched: z.number(),
+  changed: z.number(),
+  changes: z.array(categoryChangeSchema),
+};
+
+function toRuleConditions({ minAmount, maxAmount, ...conditions }: z.infer<typeof ruleConditionsSchema>): RuleConditions {
+  return {
+    ...conditions,
+    minAmountMinor: minAmount === undefined ? undefined : Math.round(minAmount * RULE_AMOUNT_SCALE),
+    maxAmountMinor: maxAmount === undefined ? undefined : Math.round(maxAmount * RULE_AMOUNT_SCALE),
+  };
+}
+
+/**
+ * A saved rule with its amount bounds as decimals, the way the API takes them
+ */
+export function withRuleAmounts({ minAmountMinor, maxAmountMinor, ...rule }: Rule) {
+  return {
+    ...rule,
+    minAmount: minAmountMinor === null ? null : minAmountMinor / RULE_AMOUNT_SCALE,
+    maxAmount: maxAmountMinor === null ? null : maxAmountMinor / RULE_AMOUNT_SCALE,
+  };
+}
+
+function validateConditions({ descriptionContains, descriptionPattern, merchant, paymentMethod, minAmountMinor, maxAmountMinor }: RuleConditions) {
+  if (!descriptionContains && !descriptionPattern && !merchant && !paymentMethod && minAmountMinor == null && maxAmountMinor == null) {
+    throw new Error("A rule needs at least one condition");
+  }
+  if (minAmountMinor != null && maxAmountMinor != null && minAmountMinor > maxAmountMinor) {
+    throw new Error("minAmount can't be greater than maxAmount");
+  }
+}
+
+/**
+ * Whether an expense meets every condition the rule sets
+ */
+export function ruleMatches(rule: RuleConditions, expense: Categorizable) {
+  const description = expense.description.trim().toLowerCase();
+  // Both sides scaled to a common integer unit: the expense's minor unit times
+  // RULE_AMOUNT_SCALE
+  const amount = expense.amountMinor === undefined ? undefined : expense.amountMinor * RULE_AMOUNT_SCALE;
+  const bound = (hundredths: number) => hundredths * 10 ** currencyExponent(expense.currency);
+
+  if (rule.descriptionContains && !description.includes(rule.descriptionContains.toLowerCase())) return false;
+  if (rule.descriptionPattern && !new RegExp(rule.descriptionPattern, "i").test(expense.description)) return false;
+  if (rule.merchant && !description.startsWith(rule.merchant.toLowerCase())) return false;
+  if (rule.paymentMethod && expense.paymentMethod?.toLowerCase() !== rule.paymentMethod.toLowerCase()) return false;
+  if (rule.minAmountMinor != null && (amount === undefined || amount < bound(rule.minAmountMinor))) return false;
+  if (rule.maxAmountMinor != null && (amount === undefined || amount > bound(rule.maxAmountMinor))) return false;
+  return true;
+}
+
+/**
+ * The category of the first matching rule; `rules` must be in priority order,
+ * as `listRules` returns them
+ */
+export function categorize(rules: Rule[], expense: Categorizable) {
+  return rules.find((rule) => ruleMatches(rule, expense))?.category;
+}
+
+/**
+ * Lists the ledger's rules in the order they are tried
+ */
+export async function listRules(db: Database, ledgerId: number) {
+  return db.select()
+    .from(schema.categorizationRules)
+    .where(eq(schema.categorizationRules.ledgerId, ledgerId))
+    .orderBy(desc(schema.categorizationRules.priority), asc(schema.categorizationRules.id));
+}
+
+/**
+ * The category for a new expense: the one given, which must exist, or else
+ * that of the first matching rule. Throws when neither applies.
+ */
+export async function resolveExpenseCategory(db: Database, ledgerId: number, expense: Categorizable & { category?: string }) {
+  if (expense.category) {
+    return (await requireCategory(db, ledgerId, expense.category)).name;
+  }
+
+  const category = categorize(await listRules(db, ledgerId), expense);
+  if (!category) {
+    throw new Error("No categorization rule matches this expense; provide a category");
+  }
+  return category;
+}
+
+export async function createRule(db: Database, ledgerId: number, { category: name, priority, ...data }: z.infer<typeof createRuleSchema>) {
+  const conditions = toRuleConditions(data);
+  validateConditions(conditions);
+  const category = await requireCategory(db, ledgerId, name);
+
+  const [rule] = await db.insert(schema.categorizationRules).values({
+    ...conditions,
+    ledgerId,
+    category: category.name,
+    priority,
+  }).returning();
+  return withRuleAmounts(rule);
+}
+
+export async function deleteRule(db: Database, ledgerId: number, id: number) {
+  const [rule] = await db.delete(schema.categorizationRules)
+    .where(and(eq(schema.categorizationRules.id, id), eq(schema.categorizationRules.ledgerId, ledgerId)))
+    .returning();
+  return rule && withRuleAmounts(rule);
+}
+
+async function selectExpenses(db: Database, ledgerId: number, filters: Omit<z.infer<typeof recategorizeSchema>, "dryRun"> = {}) {
+  const conditions = [eq(schema.expenses.ledgerId, ledgerId), notDeleted];
+  if (filters.categories) conditions.push(inArray(schema.expenses.category, filters.categories));
+  if (filters.startDate) conditions.push(gte(schema.expenses.date, filters.startDate));
+  if (filters.endDate) conditions.push(lte(schema.expenses.date, filters.endDate));
+
+  const expenses = await db.select({
+    id: schema.expenses.id,
+    description: schema.expenses.description,
+    amountMinor: schema.expenses.amountMinor,
+    currency: schema.expenses.currency,
+    date: schema.expenses.date,
+    paymentMethod: schema.expenses.paymentMethod,
+    category: schema.expenses.category,
+  })
+    .from(schema.expenses)
+    .where(and(...conditions))
+    .orderBy(desc(schema.expenses.date));
+  return expenses.map(withAmount);
+}
+
+type Expense = Awaited<ReturnType<typeof selectExpenses>>[number];
+
+function summarizeChanges(matched: Array<{ expense: Expense; category: string }>) {
+  const changes = matched
+    .filter(({ expense, category }) => expense.category !== category)
+    .map(({ expense: { paymentMethod: _, amountMinor: __, category: from, ...expense }, category: to }) => ({ ...expense, from, to }));
+
+  return { matched: matched.length, changed: changes.length, changes };
+}
+
+/**
+ * Dry-runs a single rule, saved or not, against the ledger's existing
+ * expenses: which ones it matches and which of those would change category.
+ */
+export async function testRule(db: Database, ledgerId: number, data: z.infer<typeof testRuleSchema>) {
+  let rule: RuleConditions & { category: string };
+  if (data.id !== undefined) {
+    const [saved] = await db.select()
+      .from(schema.categorizationRules)
+      .where(and(eq(schema.categorizationRules.id, data.id), eq(schema.categorizationRules.ledgerId, ledgerId)));
+    if (!saved) {
+      throw new Error(`Rule ${data.id} not found`);
+    }
+    rule = saved;
+  } else {
+    const { id: _, category, ...given } = data;
+    if (!category) {
+      throw new Error("Provide the id of a saved rule, or a category and conditions to test");
+    }
+    const conditions = toRuleConditions(given);
+    validateConditions(conditions);
+    rule = { ...conditions, category };
+  }
+
+  const expenses = await selectExpenses(db, ledgerId);
+  const matched = expenses
+    .filter((expense) => ruleMatches(rule, expense))
+    .map((expense) => ({ expense, category: rule.category }));
+
+  const result = summarizeChanges(matched);
+  return { ...result, changes: result.changes.slice(0, CHANGES_LIMIT) };
+}
+
+/**
+ * Applies the ledger's rules to existing expenses: each expense in scope that
+ * a rule matches moves to the category of the first matching rule, in a
+ * single batch. Expenses no rule matches keep their category.
+ */
+export async function recategorize(
+  db: Database,
+  ledgerId: number,
+  actor: Actor,
+  options: z.infer<typeof recategorizeSchema>,
+) {
+  const { dryRun, ...filters } = options;
+  const rules = await listRules(db, ledgerId);
+  const expenses = await selectExpenses(db, ledgerId, filters);
+
+  const matched = expenses.flatMap((expense) => {
+    const category = categorize(rules, expense);
+    return category ? [{ expense, category }] : [];
+  });
+  const result = summarizeChanges(matched);
+
+  if (!dryRun && result.changes.length > 0) {
+    const [first, ...rest]: BatchItem<"sqlite">[] = [
+      ...result.changes.flatMap((change) => [
+        recordExpenseEvents(db, actor, "update", eq(schema.expenses.id, change.id)),
+        db.update(schema.expenses)
+          .set({ category: change.to })
+          .where(eq(schema.expenses.id, change.id)),
+      ]),
+      completeExpenseEvents(db),
+    ];
+    await db.batch([first, ...rest]);
+  }
+
+  return { ...result, dryRun };
+}
+
+/**
+ * Registers the categorization rule tools on an MCP server. Returns the tools
+ * that mutate data so the caller can disable them for read-only credentials.
+ */
+export function registerCategorizationTools(
+  server: McpServer,
+  db: Database,
+  ledgerId: number,
+  actor: Actor,
+  notifyExpensesChanged: ExpensesChangedNotifier,
+): RegisteredTool[] {
+  server.registerTool(
+    "getCategorizationRules",
+    {
+      description: "List the categorization rules that pick a category for expenses added without one, in the order they are tried",
+      outputSchema: { rules: z.array(ruleSchema) },
+    },
+    async () => {
+      try {
+        const rules = (await listRules(db, ledgerId)).map(withRuleAmounts);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Found ${rules.length} categorization rules`,
+            },
+          ],
+          structuredContent: { rules },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error retrieving categorization rules: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  const createRuleTool = server.registerTool(
+    "createCategorizationRule",
+    {
+      description: "Create a rule that files expenses added without a category (by addExpense or a statement import) under a category. Every condition given must match. Try it with testRule first.",
+      inputSchema: createRuleSchema.shape,
+      outputSchema: { rule: ruleSchema },
+    },
+    async (args) => {
+      try {
+        const rule = await createRule(db, ledgerId, args);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Categorization rule ${rule.id} created for "${rule.category}" (priority ${rule.priority})`,
+            },
+          ],
+          structuredContent: { rule },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error creating categorization rule: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  const deleteRuleTool = server.registerTool(
+    "deleteCategorizationRule",
+    {
+      description: "Delete a categorization rule. Expenses it already categorized keep their category.",
+      inputSchema: { id: z.number().int().positive().describe("Rule ID") },
+      outputSchema: { rule: ruleSchema },
+    },
+    async ({ id }) => {
+      try {
+        const rule = await deleteRule(db, ledgerId, id);
+        if (!rule) {
+          throw new Error(`Rule ${id} not found`);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Categorization rule ${id} deleted`,
+            },
+          ],
+          structuredContent: { rule },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error deleting categorization rule: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    "testRule",
+    {
+      description: `Dry-run a categorization rule, saved (by id) or not, against existing expenses. Shows how many it matches and which would change category (at most ${CHANGES_LIMIT} listed). Nothing is saved.`,
+      inputSchema: testRuleSchema.shape,
+      outputSchema: categoryChangesSchema,
+    },
+    async (args) => {
+      try {
+        const result = await testRule(db, ledgerId, args);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `The rule matches ${result.matched} expenses; ${result.changed} would change category`,
+            },
+          ],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error testing rule: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  const recategorizeTool = server.registerTool(
+    "recategorize",
+    {
+      description: `Apply the categorization rules to existing expenses, moving each matched expense to the category of the first rule that matches it. Narrow it down with categories (e.g. only "Other") and dates, and preview with dryRun first; at most ${CHANGES_LIMIT} changes are listed.`,
+      inputSchema: recategorizeSchema.shape,
+      outputSchema: { ...categoryChangesSchema, dryRun: z.boolean() },
+    },
+    async (args) => {
+      try {
+        const result = await recategorize(db, ledgerId, actor, args);
+        if (!result.dryRun && result.changed > 0) {
+          await notifyExpensesChanged(result.changes);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: result.dryRun
+                ? `${result.changed} of ${result.matched} matched expenses would change category (nothing saved yet)`
+                : `Recategorized ${result.changed} expenses`,
+            },
+          ],
+          structuredContent: { ...result, changes: result.changes.slice(0, CHANGES_LIMIT) },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error recategorizing expenses: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  return [createRuleTool, deleteRuleTool, recategorizeTool];
+}
+
+export const categorizationRoutes = new Hono<AppEnv>();
+
+categorizationRoutes.get("/", async (c) => {
+  const db = drizzle(c.env.DB);
+  const rules = (await listRules(db, c.get("ledgerId"))).map(withRuleAmounts);
+  return c.json({ rules });
+});
+
+categorizationRoutes.post("/", async (c) => {
+  const db = drizzle(c.env.DB);
+  const data = await c.req.json();
+
+  try {
+    const rule = await createRule(db, c.get("ledgerId"), createRuleSchema.parse(data));
+    return c.json({ rule }, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: "Validation error", details: error.errors }, 400);
+    }
+    return c.json({ error: error instanceof Error ? error.message : "Failed to create rule" }, 400);
+  }
+});
+
+categorizationRoutes.post("/test", async (c) => {
+  const db = drizzle(c.env.DB);
+  const data = await c.req.json();
+
+  try {
+    const result = await testRule(db, c.get("ledgerId"), testRuleSchema.parse(data));
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: "Validation error", details: error.errors }, 400);
+    }
+    return c.json({ error: error instanceof Error ? error.message : "Failed to test rule" }, 400);
+  }
+});
+
+categorizationRoutes.post("/recategorize", async (c) => {
+  const db = drizzle(c.env.DB);
+  const data = await c.req.json();
+
+  try {
+    const result = await recategorize(db, c.get("ledgerId"), requestActor(c, "rest"), recategorizeSchema.parse(data));
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: "Validation error", details: error.errors }, 400);
+    }
+    return c.json({ error: error instanceof Error ? error.message : "Failed to recategorize expenses" }, 400);
+  }
+});
+
+categorizationRoutes.delete("/:id", async (c) => {
+  const db = drizzle(c.env.DB);
+  const rule = await deleteRule(db, c.get("ledgerId"), Number.parseInt(c.req.param("id")));
+
+  if (!rule) {
+    return c.json({ error: "Rule not found" }, 404);
+  }
+  return c.json({ message: "Rule deleted successfully" });
+});
@@ -0,0 +1,225 @@
+import { drizzle } from "drizzle-orm/d1";
+import { Hono } from "hono";
+import { z } from "zod";
+import { and, asc, eq, gte, lte } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import { fromMinorUnits, toMinorUnits } from "@cf-hackathon/money";
+import * as schema from "./db/schema";
+import { requireAdmin } from "./auth";
+import type { AppEnv, Database } from "./types";
+
+// Active ISO 4217 codes, including funds and precious metals but not the testing codes
+export const ISO_4217_CODES = new Set([
+  "AED", "AFN", "ALL", "AMD", "ANG", "AOA", "ARS", "AUD", "AWG", "AZN",
+  "BAM", "BBD", "BDT", "BGN", "BHD", "BIF", "BMD", "BND", "BOB", "BOV",
+  "BRL", "BSD", "BTN", "BWP", "BYN", "BZD", "CAD", "CDF", "CHE", "CHF",
+  "CHW", "CLF", "CLP", "CNY", "COP", "COU", "CRC", "CUP", "CVE", "CZK",
+  "DJF", "DKK", "DOP", "DZD", "EGP", "ERN", "ETB", "EUR", "FJD", "FKP",
+  "GBP", "GEL", "GHS", "GIP", "GMD", "GNF", "GTQ", "GYD", "HKD", "HNL",
+  "HTG", "HUF", "IDR", "ILS", "INR", "IQD", "IRR", "ISK", "JMD", "JOD",
+  "JPY", "KES", "KGS", "KHR", "KMF", "KPW", "KRW", "KWD", "KYD", "KZT",
+  "LAK", "LBP", "LKR", "LRD", "LSL", "LYD", "MAD", "MDL", "MGA", "MKD",
+  "MMK", "MNT", "MOP", "MRU", "MUR", "MVR", "MWK", "MXN", "MXV", "MYR",
+  "MZN", "NAD", "NGN", "NIO", "NOK", "NPR", "NZD", "OMR", "PAB", "PEN",
+  "PGK", "PHP", "PKR", "PLN", "PYG", "QAR", "RON", "RSD", "RUB", "RWF",
+  "SAR", "SBD", "SCR", "SDG", "SEK", "SGD", "SHP", "SLE", "SOS", "SRD",
+  "SSP", "STN", "SVC", "SYP", "SZL", "THB", "TJS", "TMT", "TND", "TOP",
+  "TRY", "TTD", "TWD", "TZS", "UAH", "UGX", "USD", "USN", "UYI", "UYU",
+  "UYW", "UZS", "VED", "VES", "VND", "VUV", "WST", "XAF", "XAG", "XAU",
+  "XBA", "XBB", "XBC", "XBD", "XCD", "XCG", "XDR", "XOF", "XPD", "XPF",
+  "XPT", "XSU", "XUA", "YER", "ZAR", "ZMW", "ZWG",
+]);
+
+/**
+ * ISO 4217 currency code; lower-case input is accepted and normalized.
+ */
+export const currencyCode = z.string()
+  .trim()
+  .toUpperCase()
+  .refine((code) => ISO_4217_CODES.has(code), { message: "Must be an ISO 4217 currency code" });
+
+const exchangeRateSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected an ISO date (YYYY-MM-DD)"),
+  base: currencyCode,
+  quote: currencyCode,
+  rate: z.number().positive(),
+});
+
+const importExchangeRatesSchema = z.object({
+  source: z.string().optional(),
+  rates: z.array(exchangeRateSchema).min(1),
+});
+
+type RatePoint = { date: string; rate: number };
+
+export const missingRateSchema = z.object({
+  expenseId: z.number(),
+  currency: z.string(),
+  date: z.string(),
+});
+
+export type MissingRate = z.infer<typeof missingRateSchema>;
+
+/**
+ * Exchange rates for a set of currencies, resolved as of a given date using
+ * the most recent rate on or before it. Pairs are looked up directly, then
+ * inverted, then triangulated through a common base currency.
+ */
+class RateTable {
+  private pairs = new Map<string, RatePoint[]>();
+  private bases = new Set<string>();
+
+  constructor(rows: Array<typeof schema.exchangeRates.$inferSelect>) {
+    for (const row of rows) {
+      const key = `${row.base}/${row.quote}`;
+      const points = this.pairs.get(key) ?? [];
+      points.push({ date: row.date, rate: row.rate });
+      this.pairs.set(key, points);
+      this.bases.add(row.base);
+    }
+  }
+
+  private lookup(base: string, quote: string, date: string) {
+    // Points are loaded in ascending date order
+    const points = this.pairs.get(`${base}/${quote}`);
+    let rate: number | undefined;
+    for (const point of points ?? []) {
+      if (point.date > date) break;
+      rate = point.rate;
+    }
+    return rate;
+  }
+
+  private direct(from: string, to: string, date: string) {
+    const rate = this.lookup(from, to, date);
+    if (rate !== undefined) return rate;
+
+    const inverse = this.lookup(to, from, date);
+    return inverse !== undefined ? 1 / inverse : undefined;
+  }
+
+  rate(from: string, to: string, date: string) {
+    if (from === to) return 1;
+
+    const rate = this.direct(from, to, date);
+    if (rate !== undefined) return rate;
+
+    for (const base of this.bases) {
+      const toBase = this.direct(from, base, date);
+      const fromBase = this.direct(base, to, date);
+      if (toBase !== undefined && fromBase !== undefined) {
+        return toBase * fromBase;
+      }
+    }
+
+    return undefined;
+  }
+}
+
+/**
+ * Loads the exchange rates effective up to `untilDate` (YYYY-MM-DD)
+ */
+export async function loadRateTable(db: Database, untilDate: string) {
+  const rows = await db.select()
+    .from(schema.exchangeRates)
+    .where(lte(schema.exchangeRates.date, untilDate))
+    .orderBy(asc(schema.exchangeRates.date));
+
+  return new RateTable(rows);
+}
+
+/**
+ * Converts each expense into `reportingCurrency` using the rate effective on
+ * the expense date. Expenses without a usable rate keep a null
+ * `convertedAmount` and are listed in `missingRates`, so callers can report
+ * them instead of silently skewing totals.
+ */
+export async function convertExpenses<T extends { id: number; amount: number; currency: string; date: string }>(
+  db: Database,
+  expenses: T[],
+  reportingCurrency: string,
+) {
+  const latestDate = expenses.reduce((max, expense) => (expense.date > max ? expense.date : max), "");
+  const needsRates = expenses.some((expense) => expense.currency !== reportingCurrency);
+  const rates = needsRates ? await loadRateTable(db, latestDate.slice(0, 10)) : new RateTable([]);
+  const missingRates: MissingRate[] = [];
+
+  const converted = expenses.map((expense) => {
+    const date = expense.date.slice(0, 10);
+    const exchangeRate = rates.rate(expense.currency, reportingCurrency, date);
+
+    if (exchangeRate === undefined) {
+      missingRates.push({ expenseId: expense.id, currency: expense.currency, date });
+    }
+
+    return {
+      ...expense,
+      reportingCurrency,
+      exchangeRate: exchangeRate ?? null,
+      convertedAmount: exchangeRate === undefined
+        ? null
+        : fromMinorUnits(toMinorUnits(expense.amount * exchangeRate, reportingCurrency), reportingCurrency),
+    };
+  });
+
+  return { expenses: converted, missingRates };
+}
+
+export const exchangeRateRoutes = new Hono<AppEnv>();
+
+exchangeRateRoutes.get("/", async (c) => {
+  const db = drizzle(c.env.DB);
+  const query = z.object({
+    base: currencyCode.optional(),
+    quote: currencyCode.optional(),
+    from: z.string().optional(),
+    to: z.string().optional(),
+  }).safeParse(c.req.query());
+
+  if (!query.success) {
+    return c.json({ error: "Validation error", details: query.error.errors }, 400);
+  }
+
+  const { base, quote, from, to } = query.data;
+  const conditions = [];
+  if (base) conditions.push(eq(schema.exchangeRates.base, base));
+  if (quote) conditions.push(eq(schema.exchangeRates.quote, quote));
+  if (from) conditions.push(gte(schema.exchangeRates.date, from));
+  if (to) conditions.push(lte(schema.exchangeRates.date, to));
+
+  const rates = await db.select()
+    .from(schema.exchangeRates)
+    .where(and(...conditions))
+    .orderBy(asc(schema.exchangeRates.date));
+
+  return c.json({ rates });
+});
+
+/**
+ * Imports (or replaces) exchange rates in a single batch. Rates are shared by
+ * every ledger, so importing requires the admin token.
+ */
+exchangeRateRoutes.post("/", requireAdmin, async (c) => {
+  const db = drizzle(c.env.DB);
+  const data = await c.req.json();
+
+  try {
+    const { source, rates } = importExchangeRatesSchema.parse(data);
+    const [first, ...rest]: BatchItem<"sqlite">[] = rates.map((rate) =>
+      db.insert(schema.exchangeRates)
+        .values({ ...rate, source })
+        .onConflictDoUpdate({
+          target: [schema.exchangeRates.date, schema.exchangeRates.base, schema.exchangeRates.quote],
+          set: { rate: rate.rate, source },
+        })
+    );
+
+    await db.batch([first, ...rest]);
+    return c.json({ imported: rates.length }, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: "Validation error", details: error.errors }, 400);
+    }
+    return c.json({ error: "Failed to import exchange rates" }, 500);
+  }
+});
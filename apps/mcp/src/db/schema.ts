@@ -1,40 +1,475 @@
 import { sql } from "drizzle-orm";
-import { integer, real, text, sqliteTable, index } from "drizzle-orm/sqlite-core";
+import { integer, real, text, sqliteTable, index, uniqueIndex, primaryKey, type AnySQLiteColumn } from "drizzle-orm/sqlite-core";
 import { relations } from "drizzle-orm";
 
+export const users = sqliteTable("users", {
+  id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+  name: text("name").notNull(),
+  email: text("email").unique(),
+  createdAt: text("created_at").notNull().default(sql`(CURRENT_TIMESTAMP)`),
+});
+
+export const ledgers = sqliteTable("ledgers", {
+  id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+  name: text("name").notNull(),
+  description: text("description"),
+  ownerId: integer("owner_id", { mode: "number" }).notNull().references(() => users.id),
+  createdAt: text("created_at").notNull().default(sql`(CURRENT_TIMESTAMP)`),
+}, (t) => [
+  index("ledgers_owner_idx").on(t.ownerId),
+]);
+
+export const ledgerMembers = sqliteTable("ledger_members", {
+  ledgerId: integer("ledger_id", { mode: "number" }).notNull().references(() => ledgers.id, { onDelete: "cascade" }),
+  userId: integer("user_id", { mode: "number" }).notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: text("role", { enum: ["owner", "editor", "viewer"] }).notNull().default("editor"),
+  createdAt: text("created_at").notNull().default(sql`(CURRENT_TIMESTAMP)`),
+}, (t) => [
+  primaryKey({ columns: [t.ledgerId, t.userId] }),
+  index("ledger_members_user_idx").on(t.userId),
+]);
+
+export const apiKeys = sqliteTable("api_keys", {
+  id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+  userId: integer("user_id", { mode: "number" }).notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  // SHA-256 of the key; the plaintext key is only shown once at creation
+  keyHash: text("key_hash").notNull().unique(),
+  prefix: text("prefix").notNull(),
+  scope: text("scope", { enum: ["read", "write"] }).notNull().default("read"),
+  // Issued to the chat agent; changes made with the key are recorded as the agent's
+  agent: integer("agent", { mode: "boolean" }).notNull().default(false),
+  lastUsedAt: text("last_used_at"),
+  revokedAt: text("revoked_at"),
+  createdAt: text("created_at").notNull().default(sql`(CURRENT_TIMESTAMP)`),
+}, (t) => [
+  index("api_keys_user_idx").on(t.userId),
+]);
+
 export const categories = sqliteTable("categories", {
   id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
-  name: text("name").notNull().unique(),
+  ledgerId: integer("ledger_id", { mode: "number" }).notNull().references(() => ledgers.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
   description: text("description"),
+  // Parent in the category tree; null for top-level categories
+  parentId: integer("parent_id", { mode: "number" }).references((): AnySQLiteColumn => categories.id),
   createdAt: text("created_at").notNull().default(sql`(CURRENT_TIMESTAMP)`),
 }, (t) => [
   index("categories_name_idx").on(t.name),
+  index("categories_parent_idx").on(t.parentId),
+  uniqueIndex("categories_ledger_name_unique").on(t.ledgerId, t.name),
 ]);
 
 export const expenses = sqliteTable("expenses", {
   id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
-  amount: real("amount").notNull(),
+  ledgerId: integer("ledger_id", { mode: "number" }).notNull().references(() => ledgers.id, { onDelete: "cascade" }),
+  // Integer amount in the currency's minor unit, e.g. cents; see src/money.ts.
+  // The default is only there because 0013_amount_minor_units.sql had to add
+  // the column with one; every insert sets it.
+  amountMinor: integer("amount_minor", { mode: "number" }).notNull().default(0),
   description: text("description").notNull(),
+  // Name of a category in the same ledger; enforced by triggers, see 0011_category_tree.sql
   category: text("category").notNull(),
   date: text("date").notNull(),
   currency: text("currency").notNull().default("USD"),
-  tags: text("tags", { mode: "json" }).$type<string[]>(),
   paymentMethod: text("payment_method"),
   receipt: text("receipt"),
+  notes: text("notes"),
+  // Set when the expense was materialized from a recurring expense
+  recurringExpenseId: integer("recurring_expense_id", { mode: "number" }).references(() => recurringExpenses.id, { onDelete: "set null" }),
+  occurrenceDate: text("occurrence_date"),
   createdAt: text("created_at").notNull().default(sql`(CURRENT_TIMESTAMP)`),
+  // Set when the expense is moved to the trash; see src/trash.ts
+  deletedAt: text("deleted_at"),
 }, (t) => [
+  index("expenses_ledger_idx").on(t.ledgerId),
   index("expenses_category_idx").on(t.category),
   index("expenses_date_idx").on(t.date),
   index("expenses_currency_idx").on(t.currency),
+  index("expenses_deleted_at_idx").on(t.deletedAt),
+  // Makes materializing an occurrence idempotent across cron retries
+  uniqueIndex("expenses_recurring_occurrence_unique").on(t.recurringExpenseId, t.occurrenceDate),
+]);
+
+export const tags = sqliteTable("tags", {
+  id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+  ledgerId: integer("ledger_id", { mode: "number" }).notNull().references(() => ledgers.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  createdAt: text("created_at").notNull().default(sql`(CURRENT_TIMESTAMP)`),
+}, (t) => [
+  uniqueIndex("tags_ledger_name_unique").on(t.ledgerId, t.name),
+]);
+
+export const expenseTags = sqliteTable("expense_tags", {
+  expenseId: integer("expense_id", { mode: "number" }).notNull().references(() => expenses.id, { onDelete: "cascade" }),
+  tagId: integer("tag_id", { mode: "number" }).notNull().references(() => tags.id, { onDelete: "cascade" }),
+}, (t) => [
+  primaryKey({ columns: [t.expenseId, t.tagId] }),
+  index("expense_tags_tag_idx").on(t.tagId),
+]);
+
+export const recurringExpenses = sqliteTable("recurring_expenses", {
+  id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+  ledgerId: integer("ledger_id", { mode: "number" }).notNull().references(() => ledgers.id, { onDelete: "cascade" }),
+  // Charged on each occurrence, in minor units like expenses.amount_minor;
+  // defaults to 0 only because 0016_money_minor_units.sql added it
+  amountMinor: integer("amount_minor", { mode: "number" }).notNull().default(0),
+  description: text("description").notNull(),
+  category: text("category").notNull(),
+  currency: text("currency").notNull().default("USD"),
+  tags: text("tags", { mode: "json" }).$type<string[]>(),
+  paymentMethod: text("payment_method"),
+  frequency: text("frequency", { enum: ["daily", "weekly", "monthly", "yearly"] }).notNull(),
+  // Repeat every `interval` days/weeks/months/years
+  interval: integer("interval", { mode: "number" }).notNull().default(1),
+  // For monthly/yearly cadences; clamped to the last day of shorter months
+  dayOfMonth: integer("day_of_month", { mode: "number" }),
+  startDate: text("start_date").notNull(),
+  endDate: text("end_date"),
+  // Next occurrence that has not been materialized yet (YYYY-MM-DD)
+  nextDate: text("next_date").notNull(),
+  status: text("status", { enum: ["active", "paused", "cancelled", "ended"] }).notNull().default("active"),
+  createdAt: text("created_at").notNull().default(sql`(CURRENT_TIMESTAMP)`),
+  updatedAt: text("updated_at").notNull().default(sql`(CURRENT_TIMESTAMP)`),
+}, (t) => [
+  index("recurring_expenses_ledger_idx").on(t.ledgerId),
+  index("recurring_expenses_status_next_date_idx").on(t.status, t.nextDate),
+]);
+
+export const budgets = sqliteTable("budgets", {
+  id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+  ledgerId: integer("ledger_id", { mode: "number" }).notNull().references(() => ledgers.id, { onDelete: "cascade" }),
+  // null means the budget covers spending across all categories
+  category: text("category"),
+  period: text("period", { enum: ["weekly", "monthly", "yearly"] }).notNull().default("monthly"),
+  // In minor units; defaults to 0 only because 0016_money_minor_units.sql added it
+  amountMinor: integer("amount_minor", { mode: "number" }).notNull().default(0),
+  currency: text("currency").notNull().default("USD"),
+  createdAt: text("created_at").notNull().default(sql`(CURRENT_TIMESTAMP)`),
+  updatedAt: text("updated_at").notNull().default(sql`(CURRENT_TIMESTAMP)`),
+}, (t) => [
+  index("budgets_ledger_idx").on(t.ledgerId),
+]);
+
+export const exchangeRates = sqliteTable("exchange_rates", {
+  id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+  // Date the rate takes effect (YYYY-MM-DD); it applies until a newer rate for the pair
+  date: text("date").notNull(),
+  base: text("base").notNull(),
+  quote: text("quote").notNull(),
+  // 1 unit of `base` is worth `rate` units of `quote`
+  rate: real("rate").notNull(),
+  source: text("source"),
+  createdAt: text("created_at").notNull().default(sql`(CURRENT_TIMESTAMP)`),
+}, (t) => [
+  uniqueIndex("exchange_rates_date_pair_unique").on(t.date, t.base, t.quote),
+  index("exchange_rates_pair_date_idx").on(t.base, t.quote, t.date),
+]);
+
+// ISO 4217 currencies whose minor unit isn't a hundredth; any other currency
+// has two decimals. A copy of CURRENCY_EXPONENTS in @cf-hackathon/money, which
+// is authoritative; change the two together, with a migration.
+export const currencyExponents = sqliteTable("currency_exponents", {
+  code: text("code").primaryKey(),
+  exponent: integer("exponent", { mode: "number" }).notNull(),
+});
+
+export const exportLinks = sqliteTable("export_links", {
+  id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+  ledgerId: integer("ledger_id", { mode: "number" }).notNull().references(() => ledgers.id, { onDelete: "cascade" }),
+  // SHA-256 of the link token; the token itself only appears in the download URL
+  tokenHash: text("token_hash").notNull().unique(),
+  format: text("format", { enum: ["csv", "ndjson", "spreadsheet"] }).notNull(),
+  filters: text("filters", { mode: "json" }).$type<Record<string, unknown>>().notNull(),
+  expiresAt: text("expires_at").notNull(),
+  createdAt: text("created_at").notNull().default(sql`(CURRENT_TIMESTAMP)`),
+}, (t) => [
+  index("export_links_ledger_idx").on(t.ledgerId),
+]);
+
+export const receipts = sqliteTable("receipts", {
+  id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+  ledgerId: integer("ledger_id", { mode: "number" }).notNull().references(() => ledgers.id, { onDelete: "cascade" }),
+  // One receipt per expense; uploading again replaces it
+  expenseId: integer("expense_id", { mode: "number" }).notNull().unique().references(() => expenses.id, { onDelete: "cascade" }),
+  // Key of the file in the RECEIPTS bucket
+  objectKey: text("object_key").notNull().unique(),
+  fileName: text("file_name").notNull(),
+  contentType: text("content_type").notNull(),
+  size: integer("size", { mode: "number" }).notNull(),
+  // Pixel dimensions read from the image header, for laying out thumbnails; null for PDFs
+  width: integer("width", { mode: "number" }),
+  height: integer("height", { mode: "number" }),
+  createdAt: text("created_at").notNull().default(sql`(CURRENT_TIMESTAMP)`),
+}, (t) => [
+  index("receipts_ledger_idx").on(t.ledgerId),
+]);
+
+export const receiptLinks = sqliteTable("receipt_links", {
+  id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+  receiptId: integer("receipt_id", { mode: "number" }).notNull().references(() => receipts.id, { onDelete: "cascade" }),
+  // SHA-256 of the link token; the token itself only appears in the download URL
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: text("expires_at").notNull(),
+  createdAt: text("created_at").notNull().default(sql`(CURRENT_TIMESTAMP)`),
+}, (t) => [
+  index("receipt_links_receipt_idx").on(t.receiptId),
+]);
+
+// People who share costs in a ledger; they don't need to be users
+export const participants = sqliteTable("participants", {
+  id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+  ledgerId: integer("ledger_id", { mode: "number" }).notNull().references(() => ledgers.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  createdAt: text("created_at").notNull().default(sql`(CURRENT_TIMESTAMP)`),
+}, (t) => [
+  uniqueIndex("participants_ledger_name_unique").on(t.ledgerId, t.name),
+]);
+
+export const expenseSplits = sqliteTable("expense_splits", {
+  id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+  expenseId: integer("expense_id", { mode: "number" }).notNull().references(() => expenses.id, { onDelete: "cascade" }),
+  participantId: integer("participant_id", { mode: "number" }).notNull().references(() => participants.id, { onDelete: "cascade" }),
+  method: text("method", { enum: ["equal", "percentage", "exact", "shares"] }).notNull(),
+  // As entered: the exact amount in the expense currency's minor units, or the
+  // percentage or number of shares in hundredths; null for equal splits
+  valueMinor: integer("value_minor", { mode: "number" }),
+  // What the participant paid towards the expense and what their share of it is,
+  // in the expense currency's minor units; a payer who doesn't share the cost owes 0
+  paidMinor: integer("paid_minor", { mode: "number" }).notNull().default(0),
+  owedMinor: integer("owed_minor", { mode: "number" }).notNull().default(0),
+}, (t) => [
+  uniqueIndex("expense_splits_expense_participant_unique").on(t.expenseId, t.participantId),
+  index("expense_splits_participant_idx").on(t.participantId),
 ]);
 
-export const categoriesRelations = relations(categories, ({ many }) => ({
+// Money paid from one participant to another to settle up
+export const settlements = sqliteTable("settlements", {
+  id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+  ledgerId: integer("ledger_id", { mode: "number" }).notNull().references(() => ledgers.id, { onDelete: "cascade" }),
+  fromParticipantId: integer("from_participant_id", { mode: "number" }).notNull().references(() => participants.id, { onDelete: "cascade" }),
+  toParticipantId: integer("to_participant_id", { mode: "number" }).notNull().references(() => participants.id, { onDelete: "cascade" }),
+  // In minor units; defaults to 0 only because 0016_money_minor_units.sql added it
+  amountMinor: integer("amount_minor", { mode: "number" }).notNull().default(0),
+  currency: text("currency").notNull().default("USD"),
+  date: text("date").notNull(),
+  note: text("note"),
+  createdAt: text("created_at").notNull().default(sql`(CURRENT_TIMESTAMP)`),
+}, (t) => [
+  index("settlements_ledger_idx").on(t.ledgerId),
+]);
+
+// Picks a category for expenses added without one. Every condition that is
+// set must match; rules with a higher priority are tried first.
+export const categorizationRules = sqliteTable("categorization_rules", {
+  id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+  ledgerId: integer("ledger_id", { mode: "number" }).notNull().references(() => ledgers.id, { onDelete: "cascade" }),
+  // Enforced like expenses.category, see 0012_categorization_rules.sql
+  category: text("category").notNull(),
+  priority: integer("priority", { mode: "number" }).notNull().default(0),
+  // Case-insensitive substring of the description
+  descriptionContains: text("description_contains"),
+  // Case-insensitive regular expression tested against the description
+  descriptionPattern: text("description_pattern"),
+  // Case-insensitive prefix of the description, where receipts and statement
+  // imports put the merchant name
+  merchant: text("merchant"),
+  paymentMethod: text("payment_method"),
+  // Amount bounds in hundredths of a unit of the expense's currency, since a
+  // rule applies to expenses in any currency
+  minAmountMinor: integer("min_amount_minor", { mode: "number" }),
+  maxAmountMinor: integer("max_amount_minor", { mode: "number" }),
+  createdAt: text("created_at").notNull().default(sql`(CURRENT_TIMESTAMP)`),
+}, (t) => [
+  index("categorization_rules_ledger_idx").on(t.ledgerId),
+]);
+
+// One row per change to an expense, written in the same batch as the change;
+// see src/history.ts
+export const expenseEvents = sqliteTable("expense_events", {
+  id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+  ledgerId: integer("ledger_id", { mode: "number" }).notNull().references(() => ledgers.id, { onDelete: "cascade" }),
+  // Not a foreign key, so the history outlives a purged expense
+  expenseId: integer("expense_id", { mode: "number" }).notNull(),
+  action: text("action", { enum: ["create", "update", "delete", "restore"] }).notNull(),
+  // "user:<id>", "admin" for the admin token, or "system" for scheduled jobs
+  actor: text("actor").notNull(),
+  source: text("source", { enum: ["rest", "mcp", "agent", "system"] }).notNull(),
+  // The agent chat session behind the change, when it came from the agent
+  sessionId: text("session_id"),
+  // The expense before and after the change; null before it was created
+  before: text("before", { mode: "json" }).$type<Record<string, unknown>>(),
+  after: text("after", { mode: "json" }).$type<Record<string, unknown>>(),
+  createdAt: text("created_at").notNull().default(sql`(CURRENT_TIMESTAMP)`),
+}, (t) => [
+  index("expense_events_ledger_expense_idx").on(t.ledgerId, t.expenseId),
+  // Events waiting for their `after` snapshot; empty outside a batch
+  index("expense_events_pending_idx").on(t.id).where(sql`${t.after} is null`),
+]);
+
+export const usersRelations = relations(users, ({ many }) => ({
+  ledgers: many(ledgers),
+  memberships: many(ledgerMembers),
+  apiKeys: many(apiKeys),
+}));
+
+export const apiKeysRelations = relations(apiKeys, ({ one }) => ({
+  user: one(users, {
+    fields: [apiKeys.userId],
+    references: [users.id],
+  }),
+}));
+
+export const ledgersRelations = relations(ledgers, ({ one, many }) => ({
+  owner: one(users, {
+    fields: [ledgers.ownerId],
+    references: [users.id],
+  }),
+  members: many(ledgerMembers),
+  expenses: many(expenses),
+  categories: many(categories),
+  budgets: many(budgets),
+  recurringExpenses: many(recurringExpenses),
+  tags: many(tags),
+  participants: many(participants),
+  settlements: many(settlements),
+  categorizationRules: many(categorizationRules),
+}));
+
+export const ledgerMembersRelations = relations(ledgerMembers, ({ one }) => ({
+  ledger: one(ledgers, {
+    fields: [ledgerMembers.ledgerId],
+    references: [ledgers.id],
+  }),
+  user: one(users, {
+    fields: [ledgerMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const categoriesRelations = relations(categories, ({ one, many }) => ({
+  ledger: one(ledgers, {
+    fields: [categories.ledgerId],
+    references: [ledgers.id],
+  }),
+  parent: one(categories, {
+    fields: [categories.parentId],
+    references: [categories.id],
+    relationName: "categoryTree",
+  }),
+  children: many(categories, { relationName: "categoryTree" }),
   expenses: many(expenses),
 }));
 
-export const expensesRelations = relations(expenses, ({ one }) => ({
+export const expensesRelations = relations(expenses, ({ one, many }) => ({
+  ledger: one(ledgers, {
+    fields: [expenses.ledgerId],
+    references: [ledgers.id],
+  }),
+  expenseTags: many(expenseTags),
+  recurringExpense: one(recurringExpenses, {
+    fields: [expenses.recurringExpenseId],
+    references: [recurringExpenses.id],
+  }),
   categoryRef: one(categories, {
     fields: [expenses.category],
     references: [categories.name],
   }),
-}));
\ No newline at end of file
+  receipt: one(receipts),
+  splits: many(expenseSplits),
+}));
+
+
+export const budgetsRelations = relations(budgets, ({ one }) => ({
+  ledger: one(ledgers, {
+    fields: [budgets.ledgerId],
+    references: [ledgers.id],
+  }),
+}));
+
+export const recurringExpensesRelations = relations(recurringExpenses, ({ one, many }) => ({
+  ledger: one(ledgers, {
+    fields: [recurringExpenses.ledgerId],
+    references: [ledgers.id],
+  }),
+  expenses: many(expenses),
+}));
+
+export const tagsRelations = relations(tags, ({ one, many }) => ({
+  ledger: one(ledgers, {
+    fields: [tags.ledgerId],
+    references: [ledgers.id],
+  }),
+  expenseTags: many(expenseTags),
+}));
+
+export const expenseTagsRelations = relations(expenseTags, ({ one }) => ({
+  expense: one(expenses, {
+    fields: [expenseTags.expenseId],
+    references: [expenses.id],
+  }),
+  tag: one(tags, {
+    fields: [expenseTags.tagId],
+    references: [tags.id],
+  }),
+}));
+
+export const receiptsRelations = relations(receipts, ({ one, many }) => ({
+  ledger: one(ledgers, {
+    fields: [receipts.ledgerId],
+    references: [ledgers.id],
+  }),
+  expense: one(expenses, {
+    fields: [receipts.expenseId],
+    references: [expenses.id],
+  }),
+  links: many(receiptLinks),
+}));
+
+export const receiptLinksRelations = relations(receiptLinks, ({ one }) => ({
+  receipt: one(receipts, {
+    fields: [receiptLinks.receiptId],
+    references: [receipts.id],
+  }),
+}));
+
+export const participantsRelations = relations(participants, ({ one, many }) => ({
+  ledger: one(ledgers, {
+    fields: [participants.ledgerId],
+    references: [ledgers.id],
+  }),
+  splits: many(expenseSplits),
+}));
+
+export const expenseSplitsRelations = relations(expenseSplits, ({ one }) => ({
+  expense: one(expenses, {
+    fields: [expenseSplits.expenseId],
+    references: [expenses.id],
+  }),
+  participant: one(participants, {
+    fields: [expenseSplits.participantId],
+    references: [participants.id],
+  }),
+}));
+
+export const settlementsRelations = relations(settlements, ({ one }) => ({
+  ledger: one(ledgers, {
+    fields: [settlements.ledgerId],
+    references: [ledgers.id],
+  }),
+  from: one(participants, {
+    fields: [settlements.fromParticipantId],
+    references: [participants.id],
+  }),
+  to: one(participants, {
+    fields: [settlements.toParticipantId],
+    references: [participants.id],
+  }),
+}));
+
+export const categorizationRulesRelations = relations(categorizationRules, ({ one }) => ({
+  ledger: one(ledgers, {
+    fields: [categorizationRules.ledgerId],
+    references: [ledgers.id],
+  }),
+}));
@@ -0,0 +1,135 @@
+import { z } from "zod";
+import { categoryTotalSchema } from "./categories";
+import { currencyCode, missingRateSchema } from "./currency";
+import { tagFiltersSchema } from "./tags";
+
+// Validation schemas, shared by the REST routes and the MCP tools
+
+export const addExpenseSchema = z.object({
+  amount: z.number().positive().describe("Expense amount"),
+  description: z.string().min(1).describe("Expense description"),
+  category: z.string().min(1).optional().describe("Expense category (omit to pick one with the ledger's categorization rules)"),
+  date: z.string().optional().describe("Expense date (ISO string, defaults to current date)"),
+  currency: currencyCode.default("USD").describe("ISO 4217 currency code"),
+  tags: z.array(z.string()).optional().describe("Array of tags"),
+  paymentMethod: z.string().optional().describe("Payment method used"),
+  receipt: z.string().optional().describe("Receipt URL or reference"),
+  notes: z.string().optional().describe("Free-form notes, included in full-text search"),
+});
+
+// Amounts in different currencies are compared as plain numbers
+export const expenseSortField = z.enum(["date", "amount", "createdAt", "category"]);
+
+export const getExpensesSchema = tagFiltersSchema.extend({
+  category: z.string().optional().describe("Filter by category, including its subcategories"),
+  startDate: z.string().optional().describe("Filter from date (ISO string)"),
+  endDate: z.string().optional().describe("Filter to date (ISO string)"),
+  paymentMethod: z.string().optional().describe("Filter by payment method"),
+  minAmount: z.number().optional().describe("Only expenses of at least this amount"),
+  maxAmount: z.number().optional().describe("Only expenses of at most this amount"),
+  sortBy: expenseSortField.default("date").describe("Field to sort by; ties are broken by expense ID"),
+  sortDirection: z.enum(["asc", "desc"]).default("desc").describe("Sort direction"),
+  limit: z.number().int().positive().max(200).default(50).describe("Maximum number of expenses to return"),
+  cursor: z.string().optional().describe("The `nextCursor` of the previous page, to get the page after it"),
+  reportingCurrency: currencyCode.optional().describe("Also convert each amount into this currency, using the rate effective on the expense date"),
+});
+
+export const updateExpenseSchema = z.object({
+  id: z.number().describe("Expense ID"),
+  amount: z.number().positive().optional().describe("Expense amount"),
+  description: z.string().min(1).optional().describe("Expense description"),
+  category: z.string().min(1).optional().describe("Expense category"),
+  date: z.string().optional().describe("Expense date (ISO string)"),
+  currency: currencyCode.optional().describe("ISO 4217 currency code"),
+  tags: z.array(z.string()).optional().describe("Array of tags"),
+  paymentMethod: z.string().optional().describe("Payment method used"),
+  receipt: z.string().optional().describe("Receipt URL or reference"),
+  notes: z.string().optional().describe("Free-form notes, included in full-text search"),
+});
+
+export const deleteExpenseSchema = z.object({
+  id: z.number().describe("Expense ID to delete"),
+});
+
+// Weeks start on Monday and are named by that date; an expense with several
+// tags counts towards each of them
+export const summaryGrouping = z.enum([
+  "category", "paymentMethod", "currency", "tag", "week", "month", "quarter", "year", "dayOfWeek",
+]);
+
+export const getExpenseSummarySchema = z.object({
+  startDate: z.string().optional().describe("Summary from date (ISO string)"),
+  endDate: z.string().optional().describe("Summary to date (ISO string)"),
+  groupBy: summaryGrouping.optional().describe("Group by field"),
+  thenBy: summaryGrouping.optional().describe("Group again within each group, e.g. groupBy month then by category"),
+  currency: z.string().optional().describe("Filter by currency"),
+  reportingCurrency: currencyCode.optional().describe("Convert every expense into this currency before totalling, using the rate effective on the expense date"),
+});
+
+// Output schemas, describing the `structuredContent` of tool results
+
+export const expenseSchema = z.object({
+  id: z.number(),
+  ledgerId: z.number(),
+  amount: z.number(),
+  // The same amount as an integer in the currency's minor unit, e.g. cents
+  amountMinor: z.number().int(),
+  description: z.string(),
+  category: z.string(),
+  date: z.string(),
+  currency: z.string(),
+  paymentMethod: z.string().nullable(),
+  receipt: z.string().nullable(),
+  notes: z.string().nullable(),
+  recurringExpenseId: z.number().nullable(),
+  occurrenceDate: z.string().nullable(),
+  createdAt: z.string(),
+  // When the expense was moved to the trash, null otherwise
+  deletedAt: z.string().nullable(),
+  tags: z.array(z.string()),
+});
+
+// Added to each expense when a reporting currency is requested; the amounts
+// are null when there is no exchange rate for the expense date
+export const convertedExpenseSchema = expenseSchema.extend({
+  reportingCurrency: z.string().optional(),
+  exchangeRate: z.number().nullable().optional(),
+  convertedAmount: z.number().nullable().optional(),
+});
+
+// Amounts are null when the summary spans several currencies and has no
+// reporting currency; `totalsByCurrency` has the totals then
+const summaryGroupStatsSchema = z.object({
+  total: z.number().nullable(),
+  count: z.number(),
+  average: z.number().nullable(),
+  min: z.number().nullable(),
+  max: z.number().nullable(),
+  percentOfTotal: z.number().nullable(),
+  totalsByCurrency: z.record(z.number()).optional(),
+  // Compared with the previous week, month, quarter or year, when grouped by one
+  previousTotal: z.number().optional(),
+  change: z.number().optional(),
+  changePercent: z.number().nullable().optional(),
+});
+
+export const summaryGroupSchema = summaryGroupStatsSchema.extend({
+  subgroups: z.record(summaryGroupStatsSchema).optional(),
+});
+
+export const expenseSummarySchema = z.object({
+  totalExpenses: z.number(),
+  totalAmount: z.number().nullable(),
+  averageAmount: z.number().nullable(),
+  minAmount: z.number().nullable(),
+  maxAmount: z.number().nullable(),
+  currency: z.string(),
+  missingRates: z.array(missingRateSchema).optional(),
+  totalsByCurrency: z.record(z.number()).optional(),
+  dateRange: z.object({ from: z.string(), to: z.string() }),
+  groupedBy: summaryGrouping.optional(),
+  thenBy: summaryGrouping.optional(),
+  groups: z.record(summaryGroupSchema).optional(),
+  // Category totals rolled up the category tree, when grouped by category
+  categoryTree: z.array(categoryTotalSchema).optional(),
+});
@@ -0,0 +1,331 @@
+import { drizzle } from "drizzle-orm/d1";
+import { Hono } from "hono";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { and, asc, eq, gt, gte, lt, lte, or } from "drizzle-orm";
+import { withAmount } from "@cf-hackathon/money";
+import * as schema from "./db/schema";
+import { hashApiKey } from "./auth";
+import { inCategory } from "./categories";
+import { currencyCode } from "./currency";
+import { expenseColumns, notDeleted, tagConditions, tagFiltersSchema, type ExpenseWithTags } from "./tags";
+import type { AppEnv, Database } from "./types";
+
+type Expense = ExpenseWithTags;
+type ExportFormat = z.infer<typeof exportFormat>;
+
+const PAGE_SIZE = 500;
+const INLINE_ROW_LIMIT = 1000;
+const LINK_TTL_MS = 15 * 60 * 1000;
+
+const exportFormat = z.enum(["csv", "ndjson", "spreadsheet"]);
+
+export const exportFiltersSchema = tagFiltersSchema.extend({
+  category: z.string().optional().describe("Filter by category, including its subcategories"),
+  startDate: z.string().optional().describe("Filter from date (ISO string)"),
+  endDate: z.string().optional().describe("Filter to date (ISO string)"),
+  currency: currencyCode.optional().describe("Only export expenses in this currency"),
+});
+
+export type ExportFilters = z.infer<typeof exportFiltersSchema>;
+
+const exportQuerySchema = exportFiltersSchema.extend({
+  format: exportFormat.default("csv"),
+});
+
+const COLUMNS = [
+  "id", "date", "description", "category", "amount", "currency", "tags", "paymentMethod", "createdAt",
+] as const;
+
+const FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: "text/csv; charset=utf-8", extension: "csv" },
+  ndjson: { contentType: "application/x-ndjson; charset=utf-8", extension: "ndjson" },
+  // SpreadsheetML 2003: opens in Excel, Numbers and LibreOffice with typed cells
+  spreadsheet: { contentType: "application/vnd.ms-excel; charset=utf-8", extension: "xls" },
+};
+
+function cellValue(expense: Expense, column: typeof COLUMNS[number]): string | number {
+  if (column === "tags") return expense.tags.join(";");
+  return expense[column] ?? "";
+}
+
+function csvField(value: string | number) {
+  let text = String(value);
+  // Keep spreadsheet apps from evaluating user-supplied text as formulas
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function xmlEscape(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function spreadsheetRow(cells: Array<string | number>) {
+  const xml = cells.map((cell) => typeof cell === "number"
+    ? `<Cell><Data ss:Type="Number">${cell}</Data></Cell>`
+    : `<Cell><Data ss:Type="String">${xmlEscape(cell)}</Data></Cell>`
+  );
+  return `<Row>${xml.join("")}</Row>\n`;
+}
+
+function header(format: ExportFormat) {
+  switch (format) {
+    case "csv":
+      // Byte order mark so Excel picks UTF-8 instead of the system code page
+      return `﻿${COLUMNS.join(",")}\r\n`;
+    case "ndjson":
+      return "";
+    case "spreadsheet":
+      return '<?xml version="1.0" encoding="UTF-8"?>\n'
+        + '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">\n'
+        + '<Worksheet ss:Name="Expenses"><Table>\n'
+        + spreadsheetRow([...COLUMNS]);
+  }
+}
+
+function formatRow(format: ExportFormat, expense: Expense) {
+  switch (format) {
+    case "csv":
+      return `${COLUMNS.map((column) => csvField(cellValue(expense, column))).join(",")}\r\n`;
+    case "ndjson":
+      return `${JSON.stringify(expense)}\n`;
+    case "spreadsheet":
+      return spreadsheetRow(COLUMNS.map((column) => cellValue(expense, column)));
+  }
+}
+
+function footer(format: ExportFormat) {
+  return format === "spreadsheet" ? "</Table></Worksheet></Workbook>\n" : "";
+}
+
+/**
+ * Reads matching expenses in date order, one page at a time. Pages are keyed
+ * on (date, id) rather than offsets so each query stays cheap on large ledgers.
+ */
+async function* expensePages(db: Database, ledgerId: number, filters: ExportFilters) {
+  const conditions = [eq(schema.expenses.ledgerId, ledgerId), notDeleted, ...tagConditions(filters)];
+  if (filters.category) conditions.push(await inCategory(db, ledgerId, filters.category));
+  if (filters.startDate) conditions.push(gte(schema.expenses.date, filters.startDate));
+  if (filters.endDate) conditions.push(lte(schema.expenses.date, filters.endDate));
+  if (filters.currency) conditions.push(eq(schema.expenses.currency, filters.currency));
+
+  let last: Expense | undefined;
+  while (true) {
+    const after = last && or(
+      gt(schema.expenses.date, last.date),
+      and(eq(schema.expenses.date, last.date), gt(schema.expenses.id, last.id)),
+    );
+
+    const page = (await db.select(expenseColumns)
+      .from(schema.expenses)
+      .where(and(...conditions, after))
+      .orderBy(asc(schema.expenses.date), asc(schema.expenses.id))
+      .limit(PAGE_SIZE))
+      .map(withAmount);
+
+    if (page.length === 0) return;
+    last = page[page.length - 1];
+    yield page;
+
+    if (page.length < PAGE_SIZE) return;
+  }
+}
+
+/**
+ * Streams an export so only one page of expenses is held in memory at a time.
+ */
+export function streamExport(db: Database, ledgerId: number, format: ExportFormat, filters: ExportFilters) {
+  const encoder = new TextEncoder();
+  const pages = expensePages(db, ledgerId, filters);
+  let started = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!started) {
+        started = true;
+        controller.enqueue(encoder.encode(header(format)));
+      }
+
+      const { value: page, done } = await pages.next();
+      if (done) {
+        controller.enqueue(encoder.encode(footer(format)));
+        controller.close();
+        return;
+      }
+
+      controller.enqueue(encoder.encode(page.map((expense) => formatRow(format, expense)).join("")));
+    },
+    async cancel() {
+      await pages.return(undefined);
+    },
+  });
+}
+
+function exportResponse(stream: ReadableStream<Uint8Array>, format: ExportFormat) {
+  const { contentType, extension } = FORMATS[format];
+  const filename = `expenses-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  });
+}
+
+/**
+ * Creates a short-lived, unauthenticated download link for an export. The
+ * token is the only credential, so only its hash is stored.
+ */
+export async function createExportLink(
+  db: Database,
+  ledgerId: number,
+  format: ExportFormat,
+  filters: ExportFilters,
+  origin: string,
+) {
+  const token = [...crypto.getRandomValues(new Uint8Array(24))]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+  const expiresAt = new Date(Date.now() + LINK_TTL_MS).toISOString();
+
+  await db.insert(schema.exportLinks).values({
+    ledgerId,
+    tokenHash: await hashApiKey(token),
+    format,
+    filters,
+    expiresAt,
+  });
+
+  return { url: `${origin}/exports/${token}`, expiresAt };
+}
+
+/**
+ * Registers the export tool on an MCP server. Small exports can be returned
+ * inline; anything else is better served as a download link.
+ */
+export function registerExportTools(server: McpServer, db: Database, ledgerId: number, origin: string) {
+  server.registerTool(
+    "exportExpenses",
+    {
+      description: "Export expenses as CSV, NDJSON or a spreadsheet file, either as a download link (valid for 15 minutes) or inline",
+      inputSchema: {
+        format: exportFormat.default("csv").describe("csv, ndjson, or spreadsheet (opens in Excel)"),
+        delivery: z.enum(["link", "inline"]).default("link").describe(`Return a download link, or the file contents inline (at most ${INLINE_ROW_LIMIT} rows)`),
+        ...exportFiltersSchema.shape,
+      },
+      outputSchema: {
+        format: exportFormat,
+        delivery: z.enum(["link", "inline"]),
+        // Link delivery
+        url: z.string().optional(),
+        expiresAt: z.string().optional(),
+        // Inline delivery
+        rows: z.number().optional(),
+        content: z.string().optional(),
+      },
+    },
+    async ({ format, delivery, ...filters }) => {
+      try {
+        if (delivery === "link") {
+          const link = await createExportLink(db, ledgerId, format, filters, origin);
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Download link (expires ${link.expiresAt}): ${link.url}`,
+              },
+            ],
+            structuredContent: { format, delivery, ...link },
+          };
+        }
+
+        let content = header(format);
+        let rows = 0;
+        for await (const page of expensePages(db, ledgerId, filters)) {
+          rows += page.length;
+          if (rows > INLINE_ROW_LIMIT) {
+            throw new Error(`Export has more than ${INLINE_ROW_LIMIT} rows; use delivery "link" instead`);
+          }
+          content += page.map((expense) => formatRow(format, expense)).join("");
+        }
+        content += footer(format);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Exported ${rows} expenses as ${format}:\n${content}`,
+            },
+          ],
+          structuredContent: { format, delivery, rows, content },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error exporting expenses: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
+
+export const exportRoutes = new Hono<AppEnv>();
+
+exportRoutes.get("/", async (c) => {
+  const db = drizzle(c.env.DB);
+  // Query strings carry tag filters as `tags=a,b` or repeated `tags=` parameters
+  const tagList = (name: string) => c.req.queries(name)?.flatMap((value) => value.split(",")).filter(Boolean);
+  const query = exportQuerySchema.safeParse({
+    ...c.req.query(),
+    tags: tagList("tags"),
+    allTags: tagList("allTags"),
+    excludeTags: tagList("excludeTags"),
+  });
+
+  if (!query.success) {
+    return c.json({ error: "Validation error", details: query.error.errors }, 400);
+  }
+
+  const { format, ...filters } = query.data;
+  return exportResponse(streamExport(db, c.get("ledgerId"), format, filters), format);
+});
+
+/**
+ * Download links handed out by the `exportExpenses` tool. Mounted outside
+ * `/api` because the token in the path replaces the API key.
+ */
+export const exportLinkRoutes = new Hono<AppEnv>();
+
+exportLinkRoutes.get("/:token", async (c) => {
+  const db = drizzle(c.env.DB);
+  const [link] = await db.select()
+    .from(schema.exportLinks)
+    .where(eq(schema.exportLinks.tokenHash, await hashApiKey(c.req.param("token"))));
+
+  if (!link || link.expiresAt < new Date().toISOString()) {
+    return c.json({ error: "Export link not found or expired" }, 404);
+  }
+
+  const filters = exportFiltersSchema.parse(link.filters);
+  return exportResponse(streamExport(db, link.ledgerId, link.format, filters), link.format);
+});
+
+/**
+ * Removes expired download links; run from the scheduled handler.
+ */
+export async function purgeExpiredExportLinks(db: Database, now: Date) {
+  await db.delete(schema.exportLinks).where(lt(schema.exportLinks.expiresAt, now.toISOString()));
+}
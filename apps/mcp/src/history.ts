@@ -0,0 +1,268 @@
+import { drizzle } from "drizzle-orm/d1";
+import { Hono, type Context } from "hono";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { and, asc, eq, isNull, sql, type SQL } from "drizzle-orm";
+import { withAmount } from "@cf-hackathon/money";
+import * as schema from "./db/schema";
+import type { Actor, AppEnv, Database } from "./types";
+
+// Sent by the agent on its MCP requests so changes can be traced to a chat.
+// Only kept for requests made with an agent key, as the agent's own account
+// of which chat it was.
+export const AGENT_SESSION_HEADER = "X-Agent-Session";
+
+export const SYSTEM_ACTOR: Actor = { name: "system", source: "system", sessionId: null };
+
+type ExpenseAction = (typeof schema.expenseEvents.action.enumValues)[number];
+
+export const getExpenseHistorySchema = z.object({
+  expenseId: z.number().describe("Expense ID"),
+});
+
+const snapshotSchema = z.object({
+  description: z.string(),
+  amount: z.number(),
+  amountMinor: z.number().int(),
+  currency: z.string(),
+  category: z.string(),
+  date: z.string(),
+  paymentMethod: z.string().nullable(),
+  receipt: z.string().nullable(),
+  notes: z.string().nullable(),
+  deletedAt: z.string().nullable(),
+  tags: z.array(z.string()),
+});
+
+type ExpenseSnapshot = Omit<z.infer<typeof snapshotSchema>, "amount">;
+
+export const expenseEventSchema = z.object({
+  id: z.number(),
+  // 1 for the oldest recorded change of the expense
+  revision: z.number(),
+  action: z.enum(schema.expenseEvents.action.enumValues),
+  actor: z.string(),
+  source: z.enum(schema.expenseEvents.source.enumValues),
+  sessionId: z.string().nullable(),
+  createdAt: z.string(),
+  before: snapshotSchema.nullable(),
+  after: snapshotSchema.nullable(),
+  // Fields that differ between `before` and `after`
+  changes: z.array(z.object({
+    field: z.string(),
+    from: z.unknown(),
+    to: z.unknown(),
+  })),
+});
+
+/**
+ * The caller of a request: REST, MCP, or the agent when the request uses a
+ * key issued to it.
+ */
+export function requestActor(c: Context<AppEnv>, transport: "rest" | "mcp"): Actor {
+  const isAgent = c.get("isAgent");
+  return {
+    name: c.get("isAdmin") ? "admin" : `user:${c.get("userId")}`,
+    source: isAgent ? "agent" : transport,
+    sessionId: isAgent ? c.req.header(AGENT_SESSION_HEADER) ?? null : null,
+  };
+}
+
+function expenseColumn(name: string) {
+  return sql`${sql.identifier("expenses")}.${sql.identifier(name)}`;
+}
+
+// The recorded state of an expense, as JSON. Columns are qualified since it is
+// also used in a subquery of an update on `expense_events`.
+const snapshot = sql<string>`json_object(
+  'description', ${expenseColumn("description")},
+  'amountMinor', ${expenseColumn("amount_minor")},
+  'currency', ${expenseColumn("currency")},
+  'category', ${expenseColumn("category")},
+  'date', ${expenseColumn("date")},
+  'paymentMethod', ${expenseColumn("payment_method")},
+  'receipt', ${expenseColumn("receipt")},
+  'notes', ${expenseColumn("notes")},
+  'deletedAt', ${expenseColumn("deleted_at")},
+  'tags', json((
+    select coalesce(json_group_array(name), '[]') from (
+      select ${schema.tags.name} as name
+      from ${schema.expenseTags}
+      inner join ${schema.tags} on ${schema.tags.id} = ${schema.expenseTags.tagId}
+      where ${schema.expenseTags.expenseId} = ${expenseColumn("id")}
+      order by ${schema.tags.name}
+    )
+  ))
+)`;
+
+/**
+ * Matches the last `count` expenses inserted, for recording events in the
+ * batch that inserts them. D1 runs a batch as one transaction and expense IDs
+ * only ever grow, so nothing else can be in between.
+ */
+export function insertedExpenses(count: number) {
+  return sql`${schema.expenses.id} in (
+    select ${schema.expenses.id} from ${schema.expenses} order by ${schema.expenses.id} desc limit ${count}
+  )`;
+}
+
+function eventColumn(name: string) {
+  return sql`${sql.identifier("expense_events")}.${sql.identifier(name)}`;
+}
+
+/**
+ * Matches expenses without a "create" event, for recording inserts that skip
+ * rows already there (`onConflictDoNothing`), which `insertedExpenses` can't.
+ */
+export const notRecordedAsCreated = sql`not exists (
+  select 1 from ${schema.expenseEvents}
+  where ${eventColumn("ledger_id")} = ${expenseColumn("ledger_id")}
+    and ${eventColumn("expense_id")} = ${expenseColumn("id")}
+    and ${eventColumn("action")} = 'create'
+)`;
+
+/**
+ * Records an event for each expense matching `where`, with its current state
+ * as `before` (none for "create"). Goes in the same batch as the change:
+ * before the statements that change the expenses, or right after the insert
+ * of new ones, with `completeExpenseEvents` at the end of the batch.
+ */
+export function recordExpenseEvents(db: Database, actor: Actor, action: ExpenseAction, where: SQL) {
+  // Drizzle lists every column in the insert, so the select has them all, in order
+  return db.insert(schema.expenseEvents).select((qb) => qb.select({
+    id: sql<number>`null`.as("id"),
+    ledgerId: schema.expenses.ledgerId,
+    expenseId: schema.expenses.id,
+    action: sql<ExpenseAction>`${action}`.as("action"),
+    actor: sql<string>`${actor.name}`.as("actor"),
+    source: sql<Actor["source"]>`${actor.source}`.as("source"),
+    sessionId: sql<string | null>`${actor.sessionId}`.as("session_id"),
+    before: (action === "create" ? sql<string | null>`null` : snapshot).as("before"),
+    after: sql<string | null>`null`.as("after"),
+    createdAt: sql<string>`CURRENT_TIMESTAMP`.as("created_at"),
+  })
+    .from(schema.expenses)
+    .where(where));
+}
+
+/**
+ * Fills in the `after` state of the events recorded earlier in the batch.
+ */
+export function completeExpenseEvents(db: Database) {
+  return db.update(schema.expenseEvents)
+    .set({ after: sql`(select ${snapshot} from ${schema.expenses} where ${expenseColumn("id")} = ${eventColumn("expense_id")})` })
+    .where(isNull(schema.expenseEvents.after));
+}
+
+function describeSnapshot(value: Record<string, unknown> | null) {
+  return value && withAmount(value as ExpenseSnapshot);
+}
+
+function diffSnapshots(before: Record<string, unknown> | null, after: Record<string, unknown> | null) {
+  const fields = [...new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])];
+  return fields
+    .filter((field) => JSON.stringify(before?.[field] ?? null) !== JSON.stringify(after?.[field] ?? null))
+    .map((field) => ({ field, from: before?.[field] ?? null, to: after?.[field] ?? null }));
+}
+
+/**
+ * Lists the recorded changes of an expense, oldest first, with what each one
+ * changed. The history stays after the expense is purged from the trash.
+ * Returns undefined if the ledger has neither the expense nor any history of it.
+ */
+export async function getExpenseHistory(db: Database, ledgerId: number, expenseId: number) {
+  const events = await db.select()
+    .from(schema.expenseEvents)
+    .where(and(eq(schema.expenseEvents.ledgerId, ledgerId), eq(schema.expenseEvents.expenseId, expenseId)))
+    .orderBy(asc(schema.expenseEvents.id));
+
+  if (events.length === 0) {
+    // Expenses from before the history was kept have none; those in the trash count too
+    const [expense] = await db.select({ id: schema.expenses.id })
+      .from(schema.expenses)
+      .where(and(eq(schema.expenses.id, expenseId), eq(schema.expenses.ledgerId, ledgerId)));
+    if (!expense) return undefined;
+  }
+
+  return events.map(({ ledgerId: _, expenseId: __, before, after, ...event }, index) => {
+    const described = { before: describeSnapshot(before), after: describeSnapshot(after) };
+    return {
+      ...event,
+      revision: index + 1,
+      ...described,
+      changes: diffSnapshots(described.before, described.after),
+    };
+  });
+}
+
+function formatValue(value: unknown) {
+  return value === null ? "none" : JSON.stringify(value);
+}
+
+export function registerHistoryTools(server: McpServer, db: Database, ledgerId: number) {
+  server.registerTool(
+    "getExpenseHistory",
+    {
+      description: "Show every recorded change to an expense, oldest first: who made it, through what (REST, MCP or the agent), and which fields changed from what to what",
+      inputSchema: getExpenseHistorySchema.shape,
+      outputSchema: { events: z.array(expenseEventSchema) },
+    },
+    async ({ expenseId }) => {
+      try {
+        const events = await getExpenseHistory(db, ledgerId, expenseId);
+
+        if (!events) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Expense with ID ${expenseId} not found`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        const lines = events.map((event) => {
+          const changes = event.action === "update"
+            ? `: ${event.changes.filter((change) => change.field !== "amountMinor").map((change) => `${change.field} ${formatValue(change.from)} → ${formatValue(change.to)}`).join(", ") || "no changes"}`
+            : "";
+          return `- Revision ${event.revision}, ${event.createdAt}: ${event.action} by ${event.actor} via ${event.source}${changes}`;
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: events.length === 0
+                ? `No recorded changes for expense ${expenseId}`
+                : `History of expense ${expenseId}:\n${lines.join("\n")}`,
+            },
+          ],
+          structuredContent: { events },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error getting expense history: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
+
+export const historyRoutes = new Hono<AppEnv>();
+
+historyRoutes.get("/", async (c) => {
+  const db = drizzle(c.env.DB);
+  const events = await getExpenseHistory(db, c.get("ledgerId"), Number.parseInt(c.req.param("id") ?? ""));
+
+  if (!events) {
+    return c.json({ error: "Expense not found" }, 404);
+  }
+  return c.json({ events });
+});
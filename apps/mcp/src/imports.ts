@@ -0,0 +1,570 @@
+import { drizzle } from "drizzle-orm/d1";
+import { Hono } from "hono";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { and, eq, gte, lte } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import { parseMoney, toMinorUnits } from "@cf-hackathon/money";
+import * as schema from "./db/schema";
+import { listCategories } from "./categories";
+import { categorize, listRules } from "./categorization";
+import { currencyCode } from "./currency";
+import { completeExpenseEvents, insertedExpenses, recordExpenseEvents, requestActor } from "./history";
+import type { ExpensesChangedNotifier } from "./resources";
+import { notDeleted } from "./tags";
+import type { Actor, AppEnv, Database } from "./types";
+
+const columnRef = z.union([z.string().min(1), z.number().int().nonnegative()]);
+
+export const csvMappingSchema = z.object({
+  // Columns are referenced by header name, or by zero-based index
+  date: columnRef,
+  description: columnRef,
+  // Either a single signed amount column, or separate debit/credit columns
+  amount: columnRef.optional(),
+  debit: columnRef.optional(),
+  credit: columnRef.optional(),
+  category: columnRef.optional(),
+  currency: columnRef.optional(),
+  paymentMethod: columnRef.optional(),
+  hasHeader: z.boolean().default(true),
+  delimiter: z.string().length(1).optional(),
+});
+
+export const importStatementSchema = z.object({
+  format: z.enum(["csv", "ofx", "qif"]).describe("Statement format"),
+  content: z.string().min(1).describe("Raw statement file contents"),
+  mapping: csvMappingSchema.optional().describe("CSV column mapping (header names or zero-based indexes); required for CSV"),
+  dateFormat: z.enum(["YYYY-MM-DD", "DD/MM/YYYY", "MM/DD/YYYY"]).optional().describe("Date format for ambiguous dates like 03/04/2025"),
+  decimalSeparator: z.enum([".", ","]).default(".").describe("Decimal separator used in amounts"),
+  // Bank statements usually show money going out as negative amounts
+  expenseSign: z.enum(["negative", "positive"]).default("negative").describe("Sign of outgoing amounts in the statement"),
+  defaultCategory: z.string().min(1).default("Uncategorized").describe("Category for rows without one that no categorization rule matches"),
+  defaultCurrency: currencyCode.default("USD").describe("Currency for rows without one"),
+  paymentMethod: z.string().optional().describe("Payment method to record for every row, e.g. the card or account name"),
+  commit: z.boolean().default(false).describe("Insert the new rows; when false only a preview is returned"),
+  includeDuplicates: z.boolean().default(false).describe("Also insert rows detected as duplicates"),
+});
+
+const importResultSchema = z.object({
+  format: z.enum(["csv", "ofx", "qif"]),
+  summary: z.object({
+    total: z.number(),
+    new: z.number(),
+    duplicates: z.number(),
+    skipped: z.number(),
+    invalid: z.number(),
+  }),
+  rows: z.array(z.object({
+    line: z.number(),
+    date: z.string().optional(),
+    amount: z.number().optional(),
+    description: z.string().optional(),
+    category: z.string().optional(),
+    currency: z.string().optional(),
+    paymentMethod: z.string().optional(),
+    error: z.string().optional(),
+    status: z.enum(["new", "duplicate", "skipped", "invalid"]),
+    duplicateOf: z.number().optional(),
+  })),
+  // Statement categories the ledger doesn't have; those rows went through the rules and defaultCategory instead
+  unknownCategories: z.array(z.string()),
+  committed: z.boolean(),
+  imported: z.number(),
+});
+
+type ImportOptions = z.infer<typeof importStatementSchema>;
+
+type ParsedRow = {
+  line: number;
+  date?: string;
+  amount?: number;
+  description?: string;
+  category?: string;
+  currency?: string;
+  paymentMethod?: string;
+  error?: string;
+};
+
+export type PreviewRow = ParsedRow & {
+  status: "new" | "duplicate" | "skipped" | "invalid";
+  duplicateOf?: number;
+};
+
+/**
+ * Splits CSV text into records, honouring quoted fields with embedded
+ * delimiters, quotes ("") and newlines.
+ */
+function parseCsvRecords(text: string, delimiter: string) {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+function detectDelimiter(text: string) {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const candidates = [",", ";", "\t", "|"];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+}
+
+function parseAmount(value: string, decimalSeparator: "." | ",") {
+  let normalized = value.trim().replace(/[\s' ]/g, "").replace(/[^\d.,()+-]/g, "");
+  const negative = /^\(.*\)$/.test(normalized) || normalized.startsWith("-") || normalized.endsWith("-");
+  normalized = normalized.replace(/[()+-]/g, "");
+
+  normalized = decimalSeparator === ","
+    ? normalized.replace(/\./g, "").replace(",", ".")
+    : normalized.replace(/,/g, "");
+
+  const amount = Number.parseFloat(normalized);
+  if (normalized === "" || Number.isNaN(amount)) {
+    return undefined;
+  }
+  return negative ? -amount : amount;
+}
+
+function parseDate(value: string, format?: ImportOptions["dateFormat"]) {
+  const trimmed = value.trim();
+
+  // OFX style: YYYYMMDD[HHMMSS[.XXX][TZ]]
+  const compact = trimmed.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (compact && !format) {
+    return `${compact[1]}-${compact[2]}-${compact[3]}`;
+  }
+
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) {
+    return `${iso[1]}-${iso[2].padStart(2, "0")}-${iso[3].padStart(2, "0")}`;
+  }
+
+  // Day/month/year with any separator; QIF also writes years as 'YY
+  const parts = trimmed.match(/^(\d{1,2})[/.\-](\d{1,2})[/.\-' ]+(\d{2,4})$/);
+  if (!parts) {
+    return undefined;
+  }
+
+  const [first, second] = format === "DD/MM/YYYY" ? [parts[2], parts[1]] : [parts[1], parts[2]];
+  const year = parts[3].length === 2 ? `20${parts[3]}` : parts[3];
+  const month = Number(first);
+  const day = Number(second);
+
+  if (month < 1 || month > 12 || day < 1 || day > 31) {
+    return undefined;
+  }
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+function parseCsv(content: string, options: ImportOptions): ParsedRow[] {
+  const mapping = options.mapping;
+  if (!mapping) {
+    throw new Error("CSV imports require a column mapping");
+  }
+  if (mapping.amount === undefined && mapping.debit === undefined) {
+    throw new Error("CSV mapping needs an amount column, or debit/credit columns");
+  }
+
+  const records = parseCsvRecords(content, mapping.delimiter ?? detectDelimiter(content));
+  const header = mapping.hasHeader ? records.shift()?.map((name) => name.trim()) ?? [] : [];
+  const firstLine = mapping.hasHeader ? 2 : 1;
+
+  const resolve = (ref: string | number | undefined) => {
+    if (ref === undefined) return undefined;
+    if (typeof ref === "number") return ref;
+    const index = header.findIndex((name) => name.toLowerCase() === ref.toLowerCase());
+    if (index === -1) {
+      throw new Error(`Column "${ref}" not found in CSV header`);
+    }
+    return index;
+  };
+
+  const columns = {
+    date: resolve(mapping.date)!,
+    description: resolve(mapping.description)!,
+    amount: resolve(mapping.amount),
+    debit: resolve(mapping.debit),
+    credit: resolve(mapping.credit),
+    category: resolve(mapping.category),
+    currency: resolve(mapping.currency),
+    paymentMethod: resolve(mapping.paymentMethod),
+  };
+
+  return records.map((record, index) => {
+    const cell = (column: number | undefined) =>
+      column === undefined ? undefined : record[column]?.trim() || undefined;
+
+    let amount: number | undefined;
+    if (columns.amount !== undefined) {
+      const value = cell(columns.amount);
+      amount = value === undefined ? undefined : parseAmount(value, options.decimalSeparator);
+    } else {
+      const debit = cell(columns.debit);
+      const credit = cell(columns.credit);
+      // Normalize to the signed convention: debits out, credits in
+      if (debit) {
+        const value = parseAmount(debit, options.decimalSeparator);
+        amount = value === undefined ? undefined : -Math.abs(value);
+      } else if (credit) {
+        const value = parseAmount(credit, options.decimalSeparator);
+        amount = value === undefined ? undefined : Math.abs(value);
+      }
+      if (options.expenseSign === "positive" && amount !== undefined) {
+        amount = -amount;
+      }
+    }
+
+    const rawDate = cell(columns.date);
+    return {
+      line: firstLine + index,
+      date: rawDate ? parseDate(rawDate, options.dateFormat) : undefined,
+      amount,
+      description: cell(columns.description),
+      category: cell(columns.category),
+      currency: cell(columns.currency),
+      paymentMethod: cell(columns.paymentMethod),
+    };
+  });
+}
+
+function parseOfx(content: string): ParsedRow[] {
+  const currency = content.match(/<CURDEF>\s*([A-Za-z]{3})/)?.[1];
+  const transactions = [...content.matchAll(/<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi)];
+
+  // Elements are unclosed in SGML-flavoured OFX 1.x and closed in XML OFX 2.x
+  const field = (block: string, tag: string) =>
+    block.match(new RegExp(`<${tag}>\\s*([^<\\r\\n]*)`, "i"))?.[1].trim() || undefined;
+
+  return transactions.map(([, block], index) => {
+    const amount = field(block, "TRNAMT");
+    const date = field(block, "DTPOSTED");
+    const name = field(block, "NAME") ?? field(block, "PAYEE");
+    const memo = field(block, "MEMO");
+
+    return {
+      line: index + 1,
+      date: date ? parseDate(date) : undefined,
+      amount: amount ? parseAmount(amount, ".") : undefined,
+      description: name && memo && memo !== name ? `${name} - ${memo}` : name ?? memo,
+      currency: field(block, "CURRENCY") ?? currency,
+      paymentMethod: field(block, "TRNTYPE")?.toLowerCase(),
+    };
+  });
+}
+
+function parseQif(content: string, options: ImportOptions): ParsedRow[] {
+  const rows: ParsedRow[] = [];
+  let current: Record<string, string> = {};
+  let startLine = 1;
+
+  const lines = content.split(/\r?\n/);
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (line === "" || line.startsWith("!")) {
+      startLine = index + 2;
+      return;
+    }
+
+    if (line === "^") {
+      const amount = current.T ?? current.U;
+      rows.push({
+        line: startLine,
+        date: current.D ? parseDate(current.D, options.dateFormat ?? "MM/DD/YYYY") : undefined,
+        amount: amount ? parseAmount(amount, options.decimalSeparator) : undefined,
+        description: current.P ?? current.M,
+        // Split transactions and transfers use "[Account]" categories; those aren't spending categories
+        category: current.L && !current.L.startsWith("[") ? current.L.split(":")[0] : undefined,
+      });
+      current = {};
+      startLine = index + 2;
+      return;
+    }
+
+    current[line[0]] = line.slice(1).trim();
+  });
+
+  return rows;
+}
+
+function parseStatement(options: ImportOptions) {
+  switch (options.format) {
+    case "csv":
+      return parseCsv(options.content, options);
+    case "ofx":
+      return parseOfx(options.content);
+    case "qif":
+      return parseQif(options.content, options);
+  }
+}
+
+const normalizeDescription = (description: string) => description.trim().toLowerCase().replace(/\s+/g, " ");
+
+/**
+ * Parses a statement and classifies each row: new, duplicate of an existing
+ * expense (same date, amount and description) or of an earlier row in the
+ * same file, skipped (money coming in), or invalid.
+ */
+export async function previewImport(db: Database, ledgerId: number, options: ImportOptions) {
+  const parsed = parseStatement(options);
+  const rules = await listRules(db, ledgerId);
+  const categories = new Set((await listCategories(db, ledgerId)).map((category) => category.name));
+  const unknownCategories = new Set<string>();
+
+  const rows: PreviewRow[] = parsed.map((row) => {
+    const currency = row.currency?.toUpperCase() ?? options.defaultCurrency;
+    const paymentMethod = row.paymentMethod ?? options.paymentMethod;
+    const statementCategory = row.category?.trim();
+    if (statementCategory && !categories.has(statementCategory)) {
+      unknownCategories.add(statementCategory);
+    }
+    // Rows without a category the ledger has go through its categorization rules first
+    const category = (statementCategory && categories.has(statementCategory) ? statementCategory : undefined)
+      ?? (row.description
+        ? categorize(rules, {
+          description: row.description,
+          amountMinor: row.amount === undefined ? undefined : toMinorUnits(Math.abs(row.amount), currency),
+          currency,
+          paymentMethod,
+        })
+        : undefined);
+    const base = {
+      ...row,
+      category: category ?? options.defaultCategory,
+      currency,
+      paymentMethod,
+    };
+
+    if (!row.date) return { ...base, status: "invalid", error: "Missing or unparseable date" };
+    if (row.amount === undefined) return { ...base, status: "invalid", error: "Missing or unparseable amount" };
+    if (!row.description) return { ...base, status: "invalid", error: "Missing description" };
+    if (!currencyCode.safeParse(currency).success) {
+      return { ...base, status: "invalid", error: `Unknown currency ${currency}` };
+    }
+
+    const outgoing = options.expenseSign === "negative" ? row.amount < 0 : row.amount > 0;
+    if (!outgoing || row.amount === 0) {
+      return { ...base, amount: Math.abs(row.amount), status: "skipped", error: "Not an expense (incoming money)" };
+    }
+
+    const amount = Math.abs(row.amount);
+    try {
+      parseMoney(amount, currency);
+    } catch (error) {
+      return { ...base, amount, status: "invalid", error: error instanceof Error ? error.message : "Invalid amount" };
+    }
+    if (!categories.has(base.category)) {
+      return { ...base, amount, status: "invalid", error: `Category "${base.category}" doesn't exist; create it first or pick another defaultCategory` };
+    }
+
+    return { ...base, amount, status: "new" };
+  });
+
+  const dates = rows.filter((row) => row.status === "new").map((row) => row.date!).sort();
+  if (dates.length > 0) {
+    const existing = await db.select({
+      id: schema.expenses.id,
+      date: schema.expenses.date,
+      amountMinor: schema.expenses.amountMinor,
+      currency: schema.expenses.currency,
+      description: schema.expenses.description,
+    })
+      .from(schema.expenses)
+      .where(and(
+        eq(schema.expenses.ledgerId, ledgerId),
+        notDeleted,
+        gte(schema.expenses.date, dates[0]),
+        // Expense dates may carry a time component, so compare against the end of the last day
+        lte(schema.expenses.date, `${dates[dates.length - 1]}T23:59:59.999Z`),
+      ));
+
+    const duplicateKey = (date: string, amountMinor: number, currency: string, description: string) =>
+      `${date.slice(0, 10)}|${amountMinor} ${currency}|${normalizeDescription(description)}`;
+
+    const seen = new Map<string, number | undefined>(
+      existing.map((expense) => [
+        duplicateKey(expense.date, expense.amountMinor, expense.currency, expense.description),
+        expense.id,
+      ])
+    );
+
+    for (const row of rows) {
+      if (row.status !== "new") continue;
+
+      const key = duplicateKey(row.date!, toMinorUnits(row.amount!, row.currency!), row.currency!, row.description!);
+      if (seen.has(key)) {
+        row.status = "duplicate";
+        row.duplicateOf = seen.get(key);
+        row.error = row.duplicateOf === undefined
+          ? "Duplicate of an earlier row in this statement"
+          : `Matches existing expense ${row.duplicateOf}`;
+      } else {
+        seen.set(key, undefined);
+      }
+    }
+  }
+
+  const summary = {
+    total: rows.length,
+    new: rows.filter((row) => row.status === "new").length,
+    duplicates: rows.filter((row) => row.status === "duplicate").length,
+    skipped: rows.filter((row) => row.status === "skipped").length,
+    invalid: rows.filter((row) => row.status === "invalid").length,
+  };
+
+  return { format: options.format, summary, rows, unknownCategories: [...unknownCategories] };
+}
+
+// The rows a commit inserts
+function rowsToInsert(rows: PreviewRow[], options: Pick<ImportOptions, "includeDuplicates">) {
+  return rows.filter((row) =>
+    row.status === "new" || (options.includeDuplicates && row.status === "duplicate")
+  );
+}
+
+/**
+ * Previews a statement and, when `commit` is set, inserts the new rows (plus
+ * duplicates if `includeDuplicates` is set) in a single D1 batch so an import
+ * either lands completely or not at all.
+ */
+export async function importStatement(db: Database, ledgerId: number, actor: Actor, options: ImportOptions) {
+  const preview = await previewImport(db, ledgerId, options);
+
+  if (!options.commit) {
+    return { ...preview, committed: false, imported: 0 };
+  }
+
+  const toInsert = rowsToInsert(preview.rows, options);
+
+  if (toInsert.length > 0) {
+    const [first, ...rest]: BatchItem<"sqlite">[] = [
+      ...toInsert.map((row) =>
+        db.insert(schema.expenses).values({
+          ledgerId,
+          amountMinor: toMinorUnits(row.amount!, row.currency!),
+          description: row.description!,
+          category: row.category!,
+          date: row.date!,
+          currency: row.currency!,
+          paymentMethod: row.paymentMethod,
+        })
+      ),
+      recordExpenseEvents(db, actor, "create", insertedExpenses(toInsert.length)),
+      completeExpenseEvents(db),
+    ];
+    await db.batch([first, ...rest]);
+  }
+
+  return { ...preview, committed: true, imported: toInsert.length };
+}
+
+/**
+ * Registers the statement import tool on an MCP server. Returns the tools
+ * that mutate data so the caller can disable them for read-only credentials.
+ */
+export function registerImportTools(
+  server: McpServer,
+  db: Database,
+  ledgerId: number,
+  actor: Actor,
+  notifyExpensesChanged: ExpensesChangedNotifier,
+): RegisteredTool[] {
+  const importStatementTool = server.registerTool(
+    "importStatement",
+    {
+      description: "Import a CSV, OFX or QIF bank statement. Call with commit=false first to preview parsed rows and duplicates, confirm with the user, then call again with commit=true.",
+      inputSchema: importStatementSchema.shape,
+      outputSchema: importResultSchema.shape,
+    },
+    async (args) => {
+      try {
+        const result = await importStatement(db, ledgerId, actor, args);
+        if (result.imported > 0) {
+          await notifyExpensesChanged(rowsToInsert(result.rows, args).map((row) => ({ date: row.date! })), { created: true });
+        }
+        const headline = result.committed
+          ? `Imported ${result.imported} expenses`
+          : "Import preview (nothing saved yet)";
+        const { total, new: fresh, duplicates, skipped, invalid } = result.summary;
+        const unknownNote = result.unknownCategories.length > 0
+          ? `. Categories not in the ledger, filed by rules or under ${args.defaultCategory} instead: ${result.unknownCategories.join(", ")}`
+          : "";
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${headline}: ${total} rows, ${fresh} new, ${duplicates} duplicates, ${skipped} skipped, ${invalid} invalid${unknownNote}`,
+            },
+          ],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error importing statement: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  return [importStatementTool];
+}
+
+export const importRoutes = new Hono<AppEnv>();
+
+importRoutes.post("/", async (c) => {
+  const db = drizzle(c.env.DB);
+  const data = await c.req.json();
+
+  try {
+    const options = importStatementSchema.parse(data);
+    const result = await importStatement(db, c.get("ledgerId"), requestActor(c, "rest"), options);
+    return c.json(result, result.committed ? 201 : 200);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: "Validation error", details: error.errors }, 400);
+    }
+    return c.json({ error: error instanceof Error ? error.message : "Failed to import statement" }, 400);
+  }
+});
@@ -0,0 +1,244 @@
+import { drizzle } from "drizzle-orm/d1";
+import { Hono } from "hono";
+import { createMiddleware } from "hono/factory";
+import { z } from "zod";
+import { and, asc, eq } from "drizzle-orm";
+import * as schema from "./db/schema";
+import { requireAdmin } from "./auth";
+import type { AppEnv } from "./types";
+
+// Ledger that existing, pre-ledger data was migrated into (see 0001_ledgers.sql)
+export const DEFAULT_LEDGER_ID = 1;
+
+const createUserSchema = z.object({
+  name: z.string().min(1),
+  email: z.string().email().optional(),
+});
+
+const createLedgerSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  // Only honoured for the admin token; regular keys always own the ledgers they create
+  ownerId: z.number().int().optional(),
+});
+
+const addMemberSchema = z.object({
+  userId: z.number().int(),
+  role: z.enum(["owner", "editor", "viewer"]).default("editor"),
+});
+
+/**
+ * Resolves the ledger a request operates on from the `X-Ledger-Id` header
+ * (or `ledgerId` query parameter for clients that can only configure a URL).
+ * Requests without either fall back to the caller's first ledger, or the
+ * default ledger for the admin token. Must run after `authenticate`.
+ */
+export const resolveLedger = createMiddleware<AppEnv>(async (c, next) => {
+  const db = drizzle(c.env.DB);
+  const userId = c.get("userId");
+  const rawLedgerId = c.req.header("X-Ledger-Id") ?? c.req.query("ledgerId");
+
+  if (rawLedgerId === undefined && userId !== null) {
+    const [membership] = await db.select()
+      .from(schema.ledgerMembers)
+      .where(eq(schema.ledgerMembers.userId, userId))
+      .orderBy(asc(schema.ledgerMembers.createdAt), asc(schema.ledgerMembers.ledgerId))
+      .limit(1);
+
+    if (!membership) {
+      return c.json({ error: "No ledger available for this user" }, 404);
+    }
+
+    if (membership.role === "viewer") {
+      c.set("scope", "read");
+    }
+    c.set("ledgerId", membership.ledgerId);
+    return next();
+  }
+
+  const ledgerId = rawLedgerId === undefined ? DEFAULT_LEDGER_ID : Number(rawLedgerId);
+
+  if (!Number.isInteger(ledgerId)) {
+    return c.json({ error: "Invalid ledger ID" }, 400);
+  }
+
+  const [ledger] = await db.select({ id: schema.ledgers.id })
+    .from(schema.ledgers)
+    .where(eq(schema.ledgers.id, ledgerId));
+
+  if (!ledger) {
+    return c.json({ error: "Ledger not found" }, 404);
+  }
+
+  if (userId !== null) {
+    const role = await getLedgerRole(db, ledgerId, userId);
+
+    if (!role) {
+      return c.json({ error: "No access to this ledger" }, 403);
+    }
+
+    // Viewers are read-only regardless of the key's own scope
+    if (role === "viewer") {
+      c.set("scope", "read");
+    }
+  }
+
+  c.set("ledgerId", ledgerId);
+  await next();
+});
+
+async function getLedgerRole(db: ReturnType<typeof drizzle>, ledgerId: number, userId: number) {
+  const [membership] = await db.select({ role: schema.ledgerMembers.role })
+    .from(schema.ledgerMembers)
+    .where(and(eq(schema.ledgerMembers.ledgerId, ledgerId), eq(schema.ledgerMembers.userId, userId)));
+
+  return membership?.role;
+}
+
+export const ledgerRoutes = new Hono<AppEnv>();
+
+ledgerRoutes.get("/users", requireAdmin, async (c) => {
+  const db = drizzle(c.env.DB);
+  const users = await db.select().from(schema.users);
+  return c.json({ users });
+});
+
+ledgerRoutes.post("/users", requireAdmin, async (c) => {
+  const db = drizzle(c.env.DB);
+  const data = await c.req.json();
+
+  try {
+    const validatedData = createUserSchema.parse(data);
+    const [newUser] = await db.insert(schema.users).values(validatedData).returning();
+    return c.json({ user: newUser }, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: "Validation error", details: error.errors }, 400);
+    }
+    return c.json({ error: "Failed to create user" }, 500);
+  }
+});
+
+ledgerRoutes.get("/ledgers", async (c) => {
+  const db = drizzle(c.env.DB);
+  const userId = c.get("userId");
+
+  if (userId === null) {
+    const ledgers = await db.select().from(schema.ledgers);
+    return c.json({ ledgers });
+  }
+
+  const ledgers = await db.select({
+    id: schema.ledgers.id,
+    name: schema.ledgers.name,
+    description: schema.ledgers.description,
+    ownerId: schema.ledgers.ownerId,
+    role: schema.ledgerMembers.role,
+    createdAt: schema.ledgers.createdAt,
+  })
+    .from(schema.ledgers)
+    .innerJoin(schema.ledgerMembers, eq(schema.ledgerMembers.ledgerId, schema.ledgers.id))
+    .where(eq(schema.ledgerMembers.userId, userId));
+
+  return c.json({ ledgers });
+});
+
+ledgerRoutes.post("/ledgers", async (c) => {
+  const db = drizzle(c.env.DB);
+  const data = await c.req.json();
+
+  try {
+    const validatedData = createLedgerSchema.parse(data);
+    const ownerId = c.get("isAdmin") ? validatedData.ownerId : c.get("userId");
+
+    if (ownerId === undefined || ownerId === null) {
+      return c.json({ error: "ownerId is required when using the admin token" }, 400);
+    }
+
+    const [owner] = await db.select({ id: schema.users.id })
+      .from(schema.users)
+      .where(eq(schema.users.id, ownerId));
+
+    if (!owner) {
+      return c.json({ error: "Owner not found" }, 404);
+    }
+
+    const [newLedger] = await db.insert(schema.ledgers).values({
+      name: validatedData.name,
+      description: validatedData.description,
+      ownerId: owner.id,
+    }).returning();
+    await db.insert(schema.ledgerMembers).values({
+      ledgerId: newLedger.id,
+      userId: owner.id,
+      role: "owner",
+    });
+
+    return c.json({ ledger: newLedger }, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: "Validation error", details: error.errors }, 400);
+    }
+    return c.json({ error: "Failed to create ledger" }, 500);
+  }
+});
+
+ledgerRoutes.get("/ledgers/:id/members", async (c) => {
+  const db = drizzle(c.env.DB);
+  const ledgerId = Number.parseInt(c.req.param("id"));
+  const userId = c.get("userId");
+
+  if (userId !== null && !(await getLedgerRole(db, ledgerId, userId))) {
+    return c.json({ error: "No access to this ledger" }, 403);
+  }
+
+  const members = await db.select({
+    userId: schema.ledgerMembers.userId,
+    name: schema.users.name,
+    email: schema.users.email,
+    role: schema.ledgerMembers.role,
+  })
+    .from(schema.ledgerMembers)
+    .innerJoin(schema.users, eq(schema.ledgerMembers.userId, schema.users.id))
+    .where(eq(schema.ledgerMembers.ledgerId, ledgerId));
+
+  return c.json({ members });
+});
+
+ledgerRoutes.post("/ledgers/:id/members", async (c) => {
+  const db = drizzle(c.env.DB);
+  const ledgerId = Number.parseInt(c.req.param("id"));
+  const userId = c.get("userId");
+  const data = await c.req.json();
+
+  if (userId !== null && (await getLedgerRole(db, ledgerId, userId)) !== "owner") {
+    return c.json({ error: "Only ledger owners can manage members" }, 403);
+  }
+
+  try {
+    const validatedData = addMemberSchema.parse(data);
+
+    const [ledger] = await db.select({ id: schema.ledgers.id })
+      .from(schema.ledgers)
+      .where(eq(schema.ledgers.id, ledgerId));
+
+    if (!ledger) {
+      return c.json({ error: "Ledger not found" }, 404);
+    }
+
+    const [member] = await db.insert(schema.ledgerMembers)
+      .values({ ledgerId, ...validatedData })
+      .onConflictDoUpdate({
+        target: [schema.ledgerMembers.ledgerId, schema.ledgerMembers.userId],
+        set: { role: validatedData.role },
+      })
+      .returning();
+
+    return c.json({ member }, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: "Validation error", details: error.errors }, 400);
+    }
+    return c.json({ error: "Failed to add ledger member" }, 500);
+  }
+});
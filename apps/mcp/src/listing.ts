@@ -0,0 +1,110 @@
+import { z } from "zod";
+import { and, asc, count, desc, eq, gt, gte, lt, lte, or, sql, type SQL } from "drizzle-orm";
+import { withAmount } from "@cf-hackathon/money";
+import * as schema from "./db/schema";
+import { inCategory } from "./categories";
+import { convertExpenses } from "./currency";
+import { expenseSortField, getExpensesSchema } from "./expenses";
+import { expenseColumns, notDeleted, tagConditions } from "./tags";
+import type { Database } from "./types";
+
+// The amount as a decimal, scaled by the currency's minor unit the way
+// src/money.ts does
+const amount = sql<number>`(${schema.expenses.amountMinor} * 1.0 / case coalesce((
+  select ${schema.currencyExponents.exponent} from ${schema.currencyExponents}
+  where ${schema.currencyExponents.code} = ${schema.expenses.currency}
+), 2) when 0 then 1 when 3 then 1000 when 4 then 10000 else 100 end)`;
+
+const SORT_COLUMNS: Record<z.infer<typeof expenseSortField>, SQL> = {
+  date: sql`${schema.expenses.date}`,
+  amount,
+  createdAt: sql`${schema.expenses.createdAt}`,
+  category: sql`${schema.expenses.category}`,
+};
+
+// Where the previous page ended, and the order it was listed in
+const cursorSchema = z.object({
+  sortBy: expenseSortField,
+  sortDirection: z.enum(["asc", "desc"]),
+  value: z.union([z.string(), z.number()]),
+  id: z.number(),
+});
+
+type Cursor = z.infer<typeof cursorSchema>;
+
+function encodeCursor(cursor: Cursor) {
+  const bytes = new TextEncoder().encode(JSON.stringify(cursor));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function decodeCursor(text: string) {
+  try {
+    const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+    const json = new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+    return cursorSchema.parse(JSON.parse(json));
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+}
+
+/**
+ * Lists a page of expenses. Pages are keyed on the sort value and ID of the
+ * last expense rather than an offset, so they stay stable while expenses are
+ * added and each query stays cheap on large ledgers.
+ */
+export async function listExpenses(db: Database, ledgerId: number, params: z.infer<typeof getExpensesSchema>) {
+  const {
+    category, startDate, endDate, paymentMethod, minAmount, maxAmount,
+    sortBy, sortDirection, limit, cursor, reportingCurrency, ...tagFilters
+  } = params;
+
+  const conditions = [eq(schema.expenses.ledgerId, ledgerId), notDeleted, ...tagConditions(tagFilters)];
+  if (category) conditions.push(await inCategory(db, ledgerId, category));
+  if (startDate) conditions.push(gte(schema.expenses.date, startDate));
+  if (endDate) conditions.push(lte(schema.expenses.date, endDate));
+  if (paymentMethod) conditions.push(eq(schema.expenses.paymentMethod, paymentMethod));
+  if (minAmount !== undefined) conditions.push(gte(amount, minAmount));
+  if (maxAmount !== undefined) conditions.push(lte(amount, maxAmount));
+
+  const sortColumn = SORT_COLUMNS[sortBy];
+  const [order, beyond] = sortDirection === "asc" ? [asc, gt] : [desc, lt];
+
+  let after: SQL | undefined;
+  if (cursor) {
+    const last = decodeCursor(cursor);
+    if (last.sortBy !== sortBy || last.sortDirection !== sortDirection) {
+      throw new Error("The cursor is for a different sort order; start again without it");
+    }
+    after = or(
+      beyond(sortColumn, last.value),
+      and(eq(sortColumn, last.value), beyond(schema.expenses.id, last.id)),
+    );
+  }
+
+  // One extra row tells whether there is another page
+  const [rows, [{ total }]] = await Promise.all([
+    db.select({ ...expenseColumns, sortValue: sql<string | number>`${sortColumn}` })
+      .from(schema.expenses)
+      .where(and(...conditions, after))
+      .orderBy(order(sortColumn), order(schema.expenses.id))
+      .limit(limit + 1),
+    db.select({ total: count() })
+      .from(schema.expenses)
+      .where(and(...conditions)),
+  ]);
+
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  const nextCursor = rows.length > limit
+    ? encodeCursor({ sortBy, sortDirection, value: last.sortValue, id: last.id })
+    : null;
+  const expenses = page.map(({ sortValue: _, ...expense }) => withAmount(expense));
+
+  if (reportingCurrency) {
+    return { ...await convertExpenses(db, expenses, reportingCurrency), nextCursor, total };
+  }
+  return { expenses, nextCursor, total };
+}
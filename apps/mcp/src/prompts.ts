@@ -0,0 +1,211 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import { z } from "zod";
+import { and, asc, desc, eq, gte, like, lt } from "drizzle-orm";
+import { fromMinorUnits, toMinorUnits, withAmount } from "@cf-hackathon/money";
+import * as schema from "./db/schema";
+import { getBudgetStatuses } from "./budgets";
+import { convertExpenses, currencyCode } from "./currency";
+import { listRecurringExpenses } from "./recurring";
+import { addMonths, getMonthlyReport, MONTH_PATTERN } from "./resources";
+import { expenseColumns, notDeleted, tagConditions } from "./tags";
+import type { Database } from "./types";
+
+const UNCATEGORIZED_LIMIT = 100;
+const COMPLETION_LIMIT = 20;
+
+function currentMonth() {
+  return new Date().toISOString().slice(0, 7);
+}
+
+function section(title: string, data: unknown) {
+  return `## ${title}\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``;
+}
+
+function userPrompt(description: string, ...parts: string[]) {
+  return {
+    description,
+    messages: [
+      {
+        role: "user" as const,
+        content: {
+          type: "text" as const,
+          text: parts.join("\n\n"),
+        },
+      },
+    ],
+  };
+}
+
+function totalsByCategory(expenses: Array<{ category: string; currency: string; amountMinor: number }>) {
+  const totals: Record<string, Record<string, number>> = {};
+  for (const { category, currency, amountMinor } of expenses) {
+    totals[category] ??= {};
+    totals[category][currency] = (totals[category][currency] ?? 0) + amountMinor;
+  }
+  for (const byCurrency of Object.values(totals)) {
+    for (const currency of Object.keys(byCurrency)) {
+      byCurrency[currency] = fromMinorUnits(byCurrency[currency], currency);
+    }
+  }
+  return totals;
+}
+
+/**
+ * Registers curated finance prompts on an MCP server. Each prompt loads the
+ * ledger data it needs up front so any MCP client gets the same review
+ * without making tool calls first.
+ */
+export function registerPrompts(server: McpServer, db: Database, ledgerId: number) {
+  const month = z.string()
+    .regex(MONTH_PATTERN, "Expected a month as YYYY-MM")
+    .optional()
+    .describe("Month to use (YYYY-MM), defaults to the current month");
+
+  const category = z.string()
+    .optional()
+    .describe("Category to review, defaults to Uncategorized");
+
+  const tag = completable(
+    z.string().min(1).describe("Tag shared by the trip's expenses, e.g. \"lisbon-2025\""),
+    async (value) => {
+      const rows = await db.select({ name: schema.tags.name })
+        .from(schema.tags)
+        .where(and(eq(schema.tags.ledgerId, ledgerId), like(schema.tags.name, `${value}%`)))
+        .orderBy(asc(schema.tags.name))
+        .limit(COMPLETION_LIMIT);
+      return rows.map((row) => row.name);
+    }
+  );
+
+  server.prompt(
+    "monthly-review",
+    "Review a month's spending against the previous month and the budgets",
+    { month },
+    async ({ month = currentMonth() }) => {
+      const [report, previous] = await Promise.all([
+        getMonthlyReport(db, ledgerId, month),
+        getMonthlyReport(db, ledgerId, addMonths(month, -1)),
+      ]);
+
+      // Budget periods are evaluated as of the month's last day, or today for the current month
+      const lastDay = new Date(Date.parse(`${addMonths(month, 1)}-01`) - 1);
+      const budgets = await getBudgetStatuses(db, ledgerId, {
+        date: month === currentMonth() ? undefined : lastDay.toISOString(),
+      });
+
+      const largest = await db.select(expenseColumns)
+        .from(schema.expenses)
+        .where(and(
+          eq(schema.expenses.ledgerId, ledgerId),
+          notDeleted,
+          gte(schema.expenses.date, `${month}-01`),
+          lt(schema.expenses.date, `${addMonths(month, 1)}-01`),
+        ))
+        .orderBy(desc(schema.expenses.amountMinor))
+        .limit(10);
+
+      return userPrompt(
+        `Monthly spending review for ${month}`,
+        `Please review my spending for ${month}. Summarize the totals, call out the categories that changed most compared with ${previous.month}, flag any budgets that are over or close to their limit, and point out unusual expenses. Finish with two or three concrete suggestions for next month.`,
+        section(`Totals for ${month}`, report),
+        section(`Totals for ${previous.month}`, previous),
+        section("Budget status", budgets),
+        section("Largest expenses", largest.map(withAmount)),
+      );
+    }
+  );
+
+  server.prompt(
+    "categorize-uncategorized",
+    "Suggest categories for expenses filed under a catch-all category",
+    { category },
+    async ({ category = "Uncategorized" }) => {
+      const expenses = await db.select(expenseColumns)
+        .from(schema.expenses)
+        .where(and(eq(schema.expenses.ledgerId, ledgerId), notDeleted, eq(schema.expenses.category, category)))
+        .orderBy(desc(schema.expenses.date))
+        .limit(UNCATEGORIZED_LIMIT);
+
+      const categories = await db.selectDistinct({ name: schema.expenses.category })
+        .from(schema.expenses)
+        .where(and(eq(schema.expenses.ledgerId, ledgerId), notDeleted));
+      const defined = await db.select({ name: schema.categories.name, description: schema.categories.description })
+        .from(schema.categories)
+        .where(eq(schema.categories.ledgerId, ledgerId));
+
+      return userPrompt(
+        `Categorize expenses filed under "${category}"`,
+        `The expenses below are filed under "${category}". Suggest a better category for each one, preferring the existing categories listed and proposing a new one only when nothing fits. Present the suggestions as a table of expense ID, description, and suggested category, and wait for my confirmation before calling updateExpense.`,
+        section(`Expenses in "${category}" (latest ${UNCATEGORIZED_LIMIT})`, expenses.map(withAmount)),
+        section("Existing categories", {
+          defined,
+          inUse: categories.map((row) => row.name).filter((name) => name !== category),
+        }),
+      );
+    }
+  );
+
+  server.prompt(
+    "find-savings",
+    "Look for savings opportunities in recent spending and recurring charges",
+    {
+      months: z.string()
+        .regex(/^([1-9]|1[0-2])$/, "Expected a number of months between 1 and 12")
+        .optional()
+        .describe("How many months back to analyse (1-12), defaults to 3"),
+    },
+    async ({ months = "3" }) => {
+      const latest = currentMonth();
+      const reports = await Promise.all(
+        Array.from({ length: Number(months) }, (_, index) => getMonthlyReport(db, ledgerId, addMonths(latest, -index)))
+      );
+      const recurring = await listRecurringExpenses(db, ledgerId, "active");
+      const budgets = await getBudgetStatuses(db, ledgerId);
+
+      return userPrompt(
+        `Savings opportunities over the last ${months} months`,
+        `Analyse my spending over the last ${months} months and find concrete ways to save. Look for categories that are trending up, subscriptions and other recurring charges that overlap or look unused, and budgets I regularly exceed. Estimate the monthly saving for each suggestion and order them from largest to smallest.`,
+        section("Monthly totals (most recent first)", reports),
+        section("Active recurring charges", recurring),
+        section("Budget status", budgets),
+      );
+    }
+  );
+
+  server.prompt(
+    "trip-expense-report",
+    "Build an expense report for a trip from the expenses carrying its tag",
+    {
+      tag,
+      reportingCurrency: currencyCode.optional().describe("Also convert the totals into this currency (ISO 4217)"),
+    },
+    async ({ tag, reportingCurrency }) => {
+      const expenses = (await db.select(expenseColumns)
+        .from(schema.expenses)
+        .where(and(eq(schema.expenses.ledgerId, ledgerId), notDeleted, ...tagConditions({ tags: [tag] })))
+        .orderBy(asc(schema.expenses.date), asc(schema.expenses.id)))
+        .map(withAmount);
+
+      const parts = [
+        `Prepare an expense report for the trip tagged "${tag}". Include the trip dates, a per-day itemised list, totals by category, and a grand total. Mention anything that looks like a personal rather than a business expense, and any expense that seems to be missing a receipt.`,
+        section("Expenses", expenses),
+        section("Totals by category and currency", totalsByCategory(expenses)),
+      ];
+
+      if (reportingCurrency) {
+        const { expenses: converted, missingRates } = await convertExpenses(db, expenses, reportingCurrency);
+        const total = converted.reduce(
+          (sum, expense) => sum + toMinorUnits(expense.convertedAmount ?? 0, reportingCurrency),
+          0,
+        );
+        parts.push(section(`Total in ${reportingCurrency}`, {
+          total: fromMinorUnits(total, reportingCurrency),
+          missingRates,
+        }));
+      }
+
+      return userPrompt(`Expense report for trip "${tag}"`, ...parts);
+    }
+  );
+}
@@ -0,0 +1,450 @@
+import { drizzle } from "drizzle-orm/d1";
+import { Hono } from "hono";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { and, eq, inArray, lt } from "drizzle-orm";
+import * as schema from "./db/schema";
+import { hashApiKey } from "./auth";
+import { notDeleted } from "./tags";
+import type { AppEnv, Database } from "./types";
+
+type Receipt = typeof schema.receipts.$inferSelect;
+
+const MAX_RECEIPT_BYTES = 10 * 1024 * 1024;
+const LINK_TTL_MS = 15 * 60 * 1000;
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.subarray(start, end));
+
+// Accepted receipt formats, recognised by their leading bytes rather than the
+// declared content type
+const SIGNATURES: Array<[contentType: string, matches: (bytes: Uint8Array) => boolean]> = [
+  ["image/jpeg", (bytes) => bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff],
+  ["image/png", (bytes) => ascii(bytes, 1, 4) === "PNG" && bytes[0] === 0x89],
+  ["image/gif", (bytes) => ascii(bytes, 0, 6) === "GIF87a" || ascii(bytes, 0, 6) === "GIF89a"],
+  ["image/webp", (bytes) => ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WEBP"],
+  ["application/pdf", (bytes) => ascii(bytes, 0, 5) === "%PDF-"],
+];
+
+export const receiptSchema = z.object({
+  id: z.number(),
+  expenseId: z.number(),
+  fileName: z.string(),
+  contentType: z.string(),
+  size: z.number(),
+  width: z.number().nullable(),
+  height: z.number().nullable(),
+  createdAt: z.string(),
+});
+
+export function detectReceiptType(bytes: Uint8Array) {
+  return SIGNATURES.find(([, matches]) => matches(bytes))?.[0];
+}
+
+/**
+ * Reads the pixel dimensions from an image header, as stored (before any EXIF
+ * rotation). Returns null for PDFs and headers it can't make sense of.
+ */
+export function readImageDimensions(contentType: string, bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  try {
+    if (contentType === "image/png") {
+      return { width: view.getUint32(16), height: view.getUint32(20) };
+    }
+
+    if (contentType === "image/gif") {
+      return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+    }
+
+    if (contentType === "image/webp") {
+      const chunk = ascii(bytes, 12, 16);
+      if (chunk === "VP8 ") {
+        return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+      }
+      if (chunk === "VP8L") {
+        const bits = view.getUint32(21, true);
+        return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+      }
+      if (chunk === "VP8X") {
+        return {
+          width: (view.getUint32(24, true) & 0xffffff) + 1,
+          height: (view.getUint32(27, true) & 0xffffff) + 1,
+        };
+      }
+    }
+
+    if (contentType === "image/jpeg") {
+      // Walk the segments up to the first start-of-frame marker
+      let offset = 2;
+      while (offset + 9 < bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+          return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+        }
+        offset += 2 + view.getUint16(offset + 2);
+      }
+    }
+  } catch {
+    // Truncated header
+  }
+
+  return null;
+}
+
+/**
+ * The receipt as shown to clients; the bucket key stays internal.
+ */
+function describeReceipt({ objectKey, ledgerId, ...receipt }: Receipt) {
+  return receipt;
+}
+
+export async function getReceipt(db: Database, ledgerId: number, expenseId: number) {
+  const [row] = await db.select({ receipt: schema.receipts })
+    .from(schema.receipts)
+    .innerJoin(schema.expenses, eq(schema.expenses.id, schema.receipts.expenseId))
+    .where(and(eq(schema.receipts.ledgerId, ledgerId), eq(schema.receipts.expenseId, expenseId), notDeleted));
+  return row?.receipt;
+}
+
+/**
+ * Stores a validated receipt file for an expense, replacing (and deleting the
+ * file of) any receipt it already had. Download links to the old file stop
+ * working.
+ */
+export async function saveReceipt(
+  db: Database,
+  bucket: R2Bucket,
+  ledgerId: number,
+  expenseId: number,
+  file: { name: string; contentType: string; bytes: Uint8Array },
+) {
+  const previous = await getReceipt(db, ledgerId, expenseId);
+  const dimensions = readImageDimensions(file.contentType, file.bytes);
+  // A fresh key per upload, so replacing a receipt never overwrites a file still being served
+  const objectKey = `ledgers/${ledgerId}/receipts/${crypto.randomUUID()}`;
+
+  await bucket.put(objectKey, file.bytes, {
+    httpMetadata: { contentType: file.contentType },
+    customMetadata: { expenseId: String(expenseId), fileName: file.name },
+  });
+
+  try {
+    const [, [receipt]] = await db.batch([
+      db.delete(schema.receipts).where(eq(schema.receipts.expenseId, expenseId)),
+      db.insert(schema.receipts).values({
+        ledgerId,
+        expenseId,
+        objectKey,
+        fileName: file.name,
+        contentType: file.contentType,
+        size: file.bytes.length,
+        width: dimensions?.width,
+        height: dimensions?.height,
+      }).returning(),
+    ]);
+
+    if (previous) {
+      await bucket.delete(previous.objectKey);
+    }
+    return receipt;
+  } catch (error) {
+    await bucket.delete(objectKey);
+    throw error;
+  }
+}
+
+/**
+ * Deletes an expense's receipt and its file. Returns the deleted receipt, or
+ * undefined when the expense had none.
+ */
+export async function deleteReceipt(db: Database, bucket: R2Bucket, ledgerId: number, expenseId: number) {
+  // Receipts of expenses in the trash are kept for a restore
+  const [receipt] = await db.delete(schema.receipts)
+    .where(and(
+      eq(schema.receipts.ledgerId, ledgerId),
+      eq(schema.receipts.expenseId, expenseId),
+      inArray(schema.receipts.expenseId, db.select({ id: schema.expenses.id }).from(schema.expenses).where(notDeleted)),
+    ))
+    .returning();
+
+  if (receipt) {
+    await bucket.delete(receipt.objectKey);
+  }
+  return receipt;
+}
+
+/**
+ * Creates a short-lived, unauthenticated download link for a receipt. The
+ * token is the only credential, so only its hash is stored.
+ */
+export async function createReceiptLink(db: Database, receipt: Receipt, origin: string) {
+  const token = [...crypto.getRandomValues(new Uint8Array(24))]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+  const expiresAt = new Date(Date.now() + LINK_TTL_MS).toISOString();
+
+  await db.insert(schema.receiptLinks).values({
+    receiptId: receipt.id,
+    tokenHash: await hashApiKey(token),
+    expiresAt,
+  });
+
+  return { url: `${origin}/receipts/${token}`, expiresAt };
+}
+
+async function receiptResponse(bucket: R2Bucket, receipt: Receipt) {
+  const object = await bucket.get(receipt.objectKey);
+  if (!object) {
+    return Response.json({ error: "Receipt file not found" }, { status: 404 });
+  }
+
+  return new Response(object.body, {
+    headers: {
+      "Content-Type": receipt.contentType,
+      "Content-Length": String(object.size),
+      "Content-Disposition": `inline; filename="${receipt.fileName.replace(/["\\\r\n]/g, "_")}"`,
+      "Cache-Control": "private, max-age=300",
+      "ETag": object.httpEtag,
+    },
+  });
+}
+
+/**
+ * Registers the receipt tools on an MCP server. Uploads go through the REST
+ * API (`POST /api/expenses/:id/receipt`), since MCP tool arguments are a poor
+ * fit for binary files. Returns the tools that mutate data so the caller can
+ * disable them for read-only credentials.
+ */
+export function registerReceiptTools(
+  server: McpServer,
+  db: Database,
+  bucket: R2Bucket,
+  ledgerId: number,
+  origin: string,
+): RegisteredTool[] {
+  server.registerTool(
+    "getReceipt",
+    {
+      description: "Get the receipt attached to an expense: file name, type, size, image dimensions, and a download link valid for 15 minutes",
+      inputSchema: {
+        expenseId: z.number().describe("Expense ID"),
+      },
+      outputSchema: {
+        receipt: receiptSchema,
+        url: z.string(),
+        expiresAt: z.string(),
+      },
+    },
+    async ({ expenseId }) => {
+      try {
+        const receipt = await getReceipt(db, ledgerId, expenseId);
+
+        if (!receipt) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Expense ${expenseId} has no receipt`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const link = await createReceiptLink(db, receipt, origin);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Receipt ${receipt.fileName} (${receipt.contentType}), download link (expires ${link.expiresAt}): ${link.url}`,
+            },
+          ],
+          structuredContent: { receipt: describeReceipt(receipt), ...link },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error retrieving receipt: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  const deleteReceiptTool = server.registerTool(
+    "deleteReceipt",
+    {
+      description: "Delete the receipt attached to an expense, keeping the expense",
+      inputSchema: {
+        expenseId: z.number().describe("Expense ID"),
+      },
+      outputSchema: { receipt: receiptSchema },
+    },
+    async ({ expenseId }) => {
+      try {
+        const receipt = await deleteReceipt(db, bucket, ledgerId, expenseId);
+
+        if (!receipt) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Expense ${expenseId} has no receipt`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Receipt ${receipt.fileName} deleted from expense ${expenseId}`,
+            },
+          ],
+          structuredContent: { receipt: describeReceipt(receipt) },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error deleting receipt: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  return [deleteReceiptTool];
+}
+
+/**
+ * Mounted at `/api/expenses/:id/receipt`.
+ */
+export const receiptRoutes = new Hono<AppEnv>();
+
+receiptRoutes.post("/", async (c) => {
+  const db = drizzle(c.env.DB);
+  const ledgerId = c.get("ledgerId");
+  const expenseId = Number.parseInt(c.req.param("id") ?? "");
+
+  // Refuse oversized uploads before buffering them; the form encoding adds a little
+  if (Number(c.req.header("Content-Length") ?? 0) > MAX_RECEIPT_BYTES + 64 * 1024) {
+    return c.json({ error: `Receipts are limited to ${MAX_RECEIPT_BYTES / 1024 / 1024} MB` }, 413);
+  }
+
+  const [expense] = await db.select({ id: schema.expenses.id })
+    .from(schema.expenses)
+    .where(and(eq(schema.expenses.id, expenseId), eq(schema.expenses.ledgerId, ledgerId), notDeleted));
+  if (!expense) {
+    return c.json({ error: "Expense not found" }, 404);
+  }
+
+  let file: unknown;
+  try {
+    file = (await c.req.parseBody()).file;
+  } catch {
+    return c.json({ error: "Expected a multipart/form-data body" }, 400);
+  }
+  if (!(file instanceof File)) {
+    return c.json({ error: "Missing \"file\" field" }, 400);
+  }
+  if (file.size > MAX_RECEIPT_BYTES) {
+    return c.json({ error: `Receipts are limited to ${MAX_RECEIPT_BYTES / 1024 / 1024} MB` }, 413);
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const contentType = detectReceiptType(bytes);
+  if (!contentType) {
+    return c.json({ error: "Unsupported file type; upload a JPEG, PNG, GIF, WebP or PDF" }, 415);
+  }
+  // Browsers send an empty or generic type for some files; anything more specific must agree
+  if (file.type && file.type !== "application/octet-stream" && file.type !== contentType) {
+    return c.json({ error: `File content is ${contentType}, not ${file.type}` }, 415);
+  }
+
+  const receipt = await saveReceipt(db, c.env.RECEIPTS, ledgerId, expenseId, {
+    name: file.name || "receipt",
+    contentType,
+    bytes,
+  });
+  return c.json({ receipt: describeReceipt(receipt) }, 201);
+});
+
+receiptRoutes.get("/", async (c) => {
+  const db = drizzle(c.env.DB);
+  const receipt = await getReceipt(db, c.get("ledgerId"), Number.parseInt(c.req.param("id") ?? ""));
+
+  if (!receipt) {
+    return c.json({ error: "Receipt not found" }, 404);
+  }
+  return receiptResponse(c.env.RECEIPTS, receipt);
+});
+
+receiptRoutes.get("/metadata", async (c) => {
+  const db = drizzle(c.env.DB);
+  const receipt = await getReceipt(db, c.get("ledgerId"), Number.parseInt(c.req.param("id") ?? ""));
+
+  if (!receipt) {
+    return c.json({ error: "Receipt not found" }, 404);
+  }
+  return c.json({ receipt: describeReceipt(receipt) });
+});
+
+// A GET so read-only keys can share receipts too, like the export links of the read-only export tool
+receiptRoutes.get("/link", async (c) => {
+  const db = drizzle(c.env.DB);
+  const receipt = await getReceipt(db, c.get("ledgerId"), Number.parseInt(c.req.param("id") ?? ""));
+
+  if (!receipt) {
+    return c.json({ error: "Receipt not found" }, 404);
+  }
+  return c.json(await createReceiptLink(db, receipt, new URL(c.req.url).origin));
+});
+
+receiptRoutes.delete("/", async (c) => {
+  const db = drizzle(c.env.DB);
+  const receipt = await deleteReceipt(db, c.env.RECEIPTS, c.get("ledgerId"), Number.parseInt(c.req.param("id") ?? ""));
+
+  if (!receipt) {
+    return c.json({ error: "Receipt not found" }, 404);
+  }
+  return c.json({ message: "Receipt deleted successfully" });
+});
+
+/**
+ * Download links handed out by `getReceipt` and `/api/expenses/:id/receipt/link`.
+ * Mounted outside `/api` because the token in the path replaces the API key.
+ */
+export const receiptLinkRoutes = new Hono<AppEnv>();
+
+receiptLinkRoutes.get("/:token", async (c) => {
+  const db = drizzle(c.env.DB);
+  const [link] = await db.select({ receipt: schema.receipts, expiresAt: schema.receiptLinks.expiresAt })
+    .from(schema.receiptLinks)
+    .innerJoin(schema.receipts, eq(schema.receipts.id, schema.receiptLinks.receiptId))
+    .innerJoin(schema.expenses, eq(schema.expenses.id, schema.receipts.expenseId))
+    .where(and(eq(schema.receiptLinks.tokenHash, await hashApiKey(c.req.param("token"))), notDeleted));
+
+  if (!link || link.expiresAt < new Date().toISOString()) {
+    return c.json({ error: "Receipt link not found or expired" }, 404);
+  }
+  return receiptResponse(c.env.RECEIPTS, link.receipt);
+});
+
+/**
+ * Removes expired download links; run from the scheduled handler.
+ */
+export async function purgeExpiredReceiptLinks(db: Database, now: Date) {
+  await db.delete(schema.receiptLinks).where(lt(schema.receiptLinks.expiresAt, now.toISOString()));
+}
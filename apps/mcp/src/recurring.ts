@@ -0,0 +1,578 @@
+import { drizzle } from "drizzle-orm/d1";
+import { Hono } from "hono";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { and, asc, eq, gte, lte, sql } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import { fromMinorUnits, parseMoney, withAmount } from "@cf-hackathon/money";
+import * as schema from "./db/schema";
+import { requireCategory } from "./categories";
+import { currencyCode } from "./currency";
+import { completeExpenseEvents, notRecordedAsCreated, recordExpenseEvents, SYSTEM_ACTOR } from "./history";
+import { linkTagsStatements } from "./tags";
+import type { AppEnv, Database } from "./types";
+
+type RecurringExpense = typeof schema.recurringExpenses.$inferSelect;
+type Cadence = Pick<RecurringExpense, "frequency" | "interval" | "dayOfMonth">;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Guards against runaway loops, e.g. a daily rule resumed after years of downtime
+const MAX_OCCURRENCES = 1000;
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}/, "Expected an ISO date (YYYY-MM-DD)");
+
+export const createRecurringExpenseSchema = z.object({
+  amount: z.number().positive().describe("Amount charged on each occurrence"),
+  description: z.string().min(1).describe("Expense description"),
+  category: z.string().min(1).describe("Expense category"),
+  currency: currencyCode.default("USD").describe("ISO 4217 currency code"),
+  tags: z.array(z.string()).optional().describe("Array of tags"),
+  paymentMethod: z.string().optional().describe("Payment method used"),
+  frequency: z.enum(["daily", "weekly", "monthly", "yearly"]).describe("How often the expense recurs"),
+  interval: z.number().int().positive().default(1).describe("Repeat every N periods, e.g. 2 with weekly for fortnightly"),
+  dayOfMonth: z.number().int().min(1).max(31).optional().describe("Day of month for monthly/yearly cadences (defaults to the start date's day)"),
+  startDate: dateString.optional().describe("First possible occurrence (YYYY-MM-DD, defaults to today)"),
+  endDate: dateString.optional().describe("Last possible occurrence (YYYY-MM-DD)"),
+});
+
+const recurringExpenseSchema = z.object({
+  id: z.number(),
+  ledgerId: z.number(),
+  amount: z.number(),
+  amountMinor: z.number().int(),
+  description: z.string(),
+  category: z.string(),
+  currency: z.string(),
+  tags: z.array(z.string()).nullable(),
+  paymentMethod: z.string().nullable(),
+  frequency: z.enum(["daily", "weekly", "monthly", "yearly"]),
+  interval: z.number(),
+  dayOfMonth: z.number().nullable(),
+  startDate: z.string(),
+  endDate: z.string().nullable(),
+  nextDate: z.string(),
+  status: z.enum(["active", "paused", "cancelled", "ended"]),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const upcomingChargesSchema = z.object({
+  until: z.string(),
+  charges: z.array(z.object({
+    recurringExpenseId: z.number(),
+    date: z.string(),
+    amount: z.number(),
+    amountMinor: z.number().int(),
+    currency: z.string(),
+    description: z.string(),
+    category: z.string(),
+  })),
+  totals: z.record(z.number()),
+});
+
+function toDateString(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function parseDate(value: string) {
+  return new Date(`${value.slice(0, 10)}T00:00:00Z`);
+}
+
+function addMonths(date: Date, months: number, dayOfMonth: number) {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const daysInMonth = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth(), Math.min(dayOfMonth, daysInMonth)));
+}
+
+/**
+ * Returns the occurrence that follows `occurrence` (YYYY-MM-DD).
+ */
+export function getNextOccurrence(cadence: Cadence, occurrence: string) {
+  const date = parseDate(occurrence);
+  const dayOfMonth = cadence.dayOfMonth ?? date.getUTCDate();
+
+  switch (cadence.frequency) {
+    case "daily":
+      return toDateString(new Date(date.getTime() + cadence.interval * DAY_MS));
+    case "weekly":
+      return toDateString(new Date(date.getTime() + 7 * cadence.interval * DAY_MS));
+    case "monthly":
+      return toDateString(addMonths(date, cadence.interval, dayOfMonth));
+    case "yearly":
+      return toDateString(addMonths(date, 12 * cadence.interval, dayOfMonth));
+  }
+}
+
+/**
+ * Returns the first occurrence on or after `startDate`, honouring `dayOfMonth`
+ * for monthly and yearly cadences.
+ */
+export function getFirstOccurrence(cadence: Cadence, startDate: string) {
+  const start = parseDate(startDate);
+  if (cadence.dayOfMonth === null || (cadence.frequency !== "monthly" && cadence.frequency !== "yearly")) {
+    return toDateString(start);
+  }
+
+  const candidate = addMonths(start, 0, cadence.dayOfMonth);
+  if (candidate >= start) {
+    return toDateString(candidate);
+  }
+  return toDateString(addMonths(start, cadence.frequency === "monthly" ? 1 : 12, cadence.dayOfMonth));
+}
+
+/**
+ * Lists the rule's occurrences from `from` up to and including `until`,
+ * stopping at the rule's end date.
+ */
+function listOccurrences(rule: RecurringExpense, from: string, until: string) {
+  const occurrences: string[] = [];
+  let occurrence = from;
+
+  while (
+    occurrence <= until &&
+    (!rule.endDate || occurrence <= rule.endDate) &&
+    occurrences.length < MAX_OCCURRENCES
+  ) {
+    occurrences.push(occurrence);
+    occurrence = getNextOccurrence(rule, occurrence);
+  }
+
+  return { occurrences, next: occurrence };
+}
+
+/**
+ * Inserts every due occurrence of a rule into `expenses` and advances its
+ * `nextDate`, in a single D1 batch. Occurrences that were already inserted
+ * (e.g. by a previous, retried run) are skipped thanks to the unique
+ * (recurring_expense_id, occurrence_date) index. The history records the
+ * new expenses as made by the system.
+ */
+export async function materializeRecurringExpense(db: Database, rule: RecurringExpense, today: string) {
+  const { occurrences, next } = listOccurrences(rule, rule.nextDate, today);
+  if (occurrences.length === 0) {
+    return 0;
+  }
+
+  const ended = rule.endDate !== null && next > rule.endDate;
+  const booked = and(
+    eq(schema.expenses.recurringExpenseId, rule.id),
+    gte(schema.expenses.occurrenceDate, occurrences[0]),
+    lte(schema.expenses.occurrenceDate, occurrences[occurrences.length - 1]),
+  )!;
+  const statements: [BatchItem<"sqlite">, ...BatchItem<"sqlite">[]] = [
+    db.update(schema.recurringExpenses)
+      .set({ nextDate: next, ...(ended && { status: "ended" as const }) })
+      .where(eq(schema.recurringExpenses.id, rule.id)),
+    ...occurrences.map((occurrence) =>
+      db.insert(schema.expenses).values({
+        ledgerId: rule.ledgerId,
+        amountMinor: rule.amountMinor,
+        description: rule.description,
+        category: rule.category,
+        date: occurrence,
+        currency: rule.currency,
+        paymentMethod: rule.paymentMethod,
+        recurringExpenseId: rule.id,
+        occurrenceDate: occurrence,
+      }).onConflictDoNothing()
+    ),
+    ...linkTagsStatements(db, rule.ledgerId, rule.tags ?? [], booked),
+    // Occurrences skipped as already booked have their event from then
+    recordExpenseEvents(db, SYSTEM_ACTOR, "create", and(booked, notRecordedAsCreated)!),
+    completeExpenseEvents(db),
+  ];
+
+  await db.batch(statements);
+  return occurrences.length;
+}
+
+/**
+ * Materializes due occurrences of every active rule across all ledgers.
+ * Called from the Worker's cron trigger.
+ */
+export async function materializeDueRecurringExpenses(db: Database, now: Date) {
+  const today = toDateString(now);
+  const dueRules = await db.select()
+    .from(schema.recurringExpenses)
+    .where(and(
+      eq(schema.recurringExpenses.status, "active"),
+      lte(schema.recurringExpenses.nextDate, today),
+    ));
+
+  let materialized = 0;
+  for (const rule of dueRules) {
+    try {
+      materialized += await materializeRecurringExpense(db, rule, today);
+    } catch (error) {
+      console.error(`Error materializing recurring expense ${rule.id}:`, error);
+    }
+  }
+
+  return materialized;
+}
+
+export async function createRecurringExpense(
+  db: Database,
+  ledgerId: number,
+  { amount, ...data }: z.infer<typeof createRecurringExpenseSchema>,
+) {
+  await requireCategory(db, ledgerId, data.category);
+  const amountMinor = parseMoney(amount, data.currency);
+  const today = toDateString(new Date());
+  const startDate = data.startDate?.slice(0, 10) ?? today;
+  const dayOfMonth = data.frequency === "monthly" || data.frequency === "yearly"
+    ? data.dayOfMonth ?? parseDate(startDate).getUTCDate()
+    : null;
+  const nextDate = getFirstOccurrence({ frequency: data.frequency, interval: data.interval, dayOfMonth }, startDate);
+
+  const [rule] = await db.insert(schema.recurringExpenses).values({
+    ...data,
+    amountMinor,
+    ledgerId,
+    tags: data.tags ?? [],
+    dayOfMonth,
+    startDate,
+    endDate: data.endDate?.slice(0, 10),
+    nextDate,
+  }).returning();
+
+  // Occurrences that are already due are booked right away rather than on the next cron run
+  const materialized = await materializeRecurringExpense(db, rule, today);
+  const [current] = await db.select()
+    .from(schema.recurringExpenses)
+    .where(eq(schema.recurringExpenses.id, rule.id));
+
+  return { recurringExpense: withAmount(current), materialized };
+}
+
+export async function listRecurringExpenses(db: Database, ledgerId: number, status?: RecurringExpense["status"]) {
+  const conditions = [eq(schema.recurringExpenses.ledgerId, ledgerId)];
+  if (status) {
+    conditions.push(eq(schema.recurringExpenses.status, status));
+  }
+
+  const rules = await db.select()
+    .from(schema.recurringExpenses)
+    .where(and(...conditions))
+    .orderBy(asc(schema.recurringExpenses.nextDate));
+  return rules.map(withAmount);
+}
+
+/**
+ * Pauses, resumes or cancels a rule. Returns undefined when the rule does not
+ * exist and throws when the transition is not allowed from its current status.
+ * Resuming skips the occurrences that fell inside the pause.
+ */
+export async function transitionRecurringExpense(
+  db: Database,
+  ledgerId: number,
+  id: number,
+  action: "pause" | "resume" | "cancel",
+) {
+  const [rule] = await db.select()
+    .from(schema.recurringExpenses)
+    .where(and(eq(schema.recurringExpenses.id, id), eq(schema.recurringExpenses.ledgerId, ledgerId)));
+
+  if (!rule) {
+    return undefined;
+  }
+
+  const allowedFrom: Record<typeof action, RecurringExpense["status"][]> = {
+    pause: ["active"],
+    resume: ["paused"],
+    cancel: ["active", "paused"],
+  };
+
+  if (!allowedFrom[action].includes(rule.status)) {
+    throw new Error(`Cannot ${action} a recurring expense that is ${rule.status}`);
+  }
+
+  let nextDate = rule.nextDate;
+  if (action === "resume") {
+    const today = toDateString(new Date());
+    for (let i = 0; nextDate < today && i < MAX_OCCURRENCES; i++) {
+      nextDate = getNextOccurrence(rule, nextDate);
+    }
+  }
+
+  const [updatedRule] = await db.update(schema.recurringExpenses)
+    .set({
+      status: action === "pause" ? "paused" : action === "resume" ? "active" : "cancelled",
+      nextDate,
+      updatedAt: sql`(CURRENT_TIMESTAMP)`,
+    })
+    .where(eq(schema.recurringExpenses.id, id))
+    .returning();
+
+  return withAmount(updatedRule);
+}
+
+/**
+ * Lists the charges active rules will book within the next `days` days,
+ * including ones that are due but not yet materialized.
+ */
+export async function getUpcomingCharges(db: Database, ledgerId: number, days: number) {
+  const until = toDateString(new Date(Date.now() + days * DAY_MS));
+  const rules = await db.select()
+    .from(schema.recurringExpenses)
+    .where(and(
+      eq(schema.recurringExpenses.ledgerId, ledgerId),
+      eq(schema.recurringExpenses.status, "active"),
+      lte(schema.recurringExpenses.nextDate, until),
+    ));
+
+  const charges = rules
+    .flatMap((rule) =>
+      listOccurrences(rule, rule.nextDate, until).occurrences.map((date) => withAmount({
+        recurringExpenseId: rule.id,
+        date,
+        amountMinor: rule.amountMinor,
+        currency: rule.currency,
+        description: rule.description,
+        category: rule.category,
+      }))
+    )
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const totalsMinor = charges.reduce((acc: Record<string, number>, charge) => {
+    acc[charge.currency] = (acc[charge.currency] ?? 0) + charge.amountMinor;
+    return acc;
+  }, {});
+  const totals = Object.fromEntries(
+    Object.entries(totalsMinor).map(([currency, minor]) => [currency, fromMinorUnits(minor, currency)])
+  );
+
+  return { until, charges, totals };
+}
+
+/**
+ * Registers the recurring expense tools on an MCP server. Returns the tools
+ * that mutate data so the caller can disable them for read-only credentials.
+ */
+export function registerRecurringTools(server: McpServer, db: Database, ledgerId: number): RegisteredTool[] {
+  const createTool = server.registerTool(
+    "createRecurringExpense",
+    {
+      description: "Create a recurring expense (subscription, rent, bills) that is booked automatically on each occurrence",
+      inputSchema: createRecurringExpenseSchema.shape,
+      outputSchema: {
+        recurringExpense: recurringExpenseSchema,
+        // Occurrences already due when the rule was created, booked as expenses
+        materialized: z.number(),
+      },
+    },
+    async (args) => {
+      try {
+        const result = await createRecurringExpense(db, ledgerId, args);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Recurring expense created successfully (${result.materialized} due occurrences booked), next charge on ${result.recurringExpense.nextDate}`,
+            },
+          ],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error creating recurring expense: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    "getRecurringExpenses",
+    {
+      description: "List recurring expenses",
+      inputSchema: {
+        status: z.enum(["active", "paused", "cancelled", "ended"]).optional().describe("Filter by status"),
+      },
+      outputSchema: { recurringExpenses: z.array(recurringExpenseSchema) },
+    },
+    async ({ status }) => {
+      try {
+        const rules = await listRecurringExpenses(db, ledgerId, status);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Found ${rules.length} recurring expenses`,
+            },
+          ],
+          structuredContent: { recurringExpenses: rules },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error retrieving recurring expenses: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  const transitionTools = (["pause", "resume", "cancel"] as const).map((action) => {
+    const name = `${action}RecurringExpense`;
+
+    return server.registerTool(
+      name,
+      {
+        description: `${action[0].toUpperCase()}${action.slice(1)} a recurring expense`,
+        inputSchema: {
+          id: z.number().describe("Recurring expense ID"),
+        },
+        outputSchema: { recurringExpense: recurringExpenseSchema },
+      },
+      async ({ id }) => {
+        try {
+          const rule = await transitionRecurringExpense(db, ledgerId, id, action);
+
+          if (!rule) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Recurring expense with ID ${id} not found`,
+                },
+              ],
+              isError: true,
+            };
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Recurring expense ${id} is now ${rule.status}`,
+              },
+            ],
+            structuredContent: { recurringExpense: rule },
+          };
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Error updating recurring expense: ${error instanceof Error ? error.message : "Unknown error"}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+      }
+    );
+  });
+
+  server.registerTool(
+    "getUpcomingCharges",
+    {
+      description: "List charges from recurring expenses expected in the next N days, with totals per currency",
+      inputSchema: {
+        days: z.number().int().positive().default(30).describe("How many days ahead to look"),
+      },
+      outputSchema: upcomingChargesSchema.shape,
+    },
+    async ({ days }) => {
+      try {
+        const upcoming = await getUpcomingCharges(db, ledgerId, days);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${upcoming.charges.length} charges expected until ${upcoming.until}`,
+            },
+          ],
+          structuredContent: upcoming,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error retrieving upcoming charges: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  return [createTool, ...transitionTools];
+}
+
+export const recurringRoutes = new Hono<AppEnv>();
+
+recurringRoutes.get("/", async (c) => {
+  const db = drizzle(c.env.DB);
+  const status = z.enum(["active", "paused", "cancelled", "ended"]).optional().safeParse(c.req.query("status"));
+
+  if (!status.success) {
+    return c.json({ error: "Validation error", details: status.error.errors }, 400);
+  }
+
+  const recurringExpenses = await listRecurringExpenses(db, c.get("ledgerId"), status.data);
+  return c.json({ recurringExpenses });
+});
+
+recurringRoutes.post("/", async (c) => {
+  const db = drizzle(c.env.DB);
+  const data = await c.req.json();
+
+  try {
+    const validatedData = createRecurringExpenseSchema.parse(data);
+    const result = await createRecurringExpense(db, c.get("ledgerId"), validatedData);
+    return c.json(result, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: "Validation error", details: error.errors }, 400);
+    }
+    return c.json({ error: error instanceof Error ? error.message : "Failed to create recurring expense" }, 400);
+  }
+});
+
+recurringRoutes.get("/upcoming", async (c) => {
+  const db = drizzle(c.env.DB);
+  const days = z.coerce.number().int().positive().default(30).safeParse(c.req.query("days"));
+
+  if (!days.success) {
+    return c.json({ error: "Validation error", details: days.error.errors }, 400);
+  }
+
+  const upcoming = await getUpcomingCharges(db, c.get("ledgerId"), days.data);
+  return c.json(upcoming);
+});
+
+for (const action of ["pause", "resume", "cancel"] as const) {
+  recurringRoutes.post(`/:id/${action}`, async (c) => {
+    const db = drizzle(c.env.DB);
+    const id = Number.parseInt(c.req.param("id"));
+
+    try {
+      const recurringExpense = await transitionRecurringExpense(db, c.get("ledgerId"), id, action);
+
+      if (!recurringExpense) {
+        return c.json({ error: "Recurring expense not found" }, 404);
+      }
+
+      return c.json({ recurringExpense });
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : "Failed to update recurring expense" }, 409);
+    }
+  });
+}
@@ -0,0 +1,229 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { and, desc, eq, gte, lt, sql } from "drizzle-orm";
+import { fromMinorUnits, withAmount } from "@cf-hackathon/money";
+import * as schema from "./db/schema";
+import { listCategories } from "./categories";
+import { expenseColumns, getExpenseWithTags, notDeleted } from "./tags";
+import type { Database } from "./types";
+
+const RECENT_LIMIT = 20;
+const LISTED_EXPENSES = 50;
+const LISTED_MONTHS = 24;
+
+export const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/**
+ * Called after expenses are created, updated or deleted so subscribed clients
+ * can re-read the affected resources. Pass both the old and new version of an
+ * updated expense when its date may have moved it to another month; new
+ * expenses can omit the ID since nobody can be subscribed to them yet.
+ */
+export type ExpensesChangedNotifier = (
+  expenses: Array<{ id?: number; date: string }>,
+  options?: { created?: boolean; deleted?: boolean },
+) => Promise<void>;
+
+function json(uri: URL, data: unknown) {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: "application/json",
+        text: JSON.stringify(data, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Shifts a YYYY-MM month by `count` months, e.g. addMonths("2025-12", 1) is "2026-01".
+ */
+export function addMonths(month: string, count: number) {
+  const [year, monthNumber] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, monthNumber - 1 + count, 1)).toISOString().slice(0, 7);
+}
+
+/**
+ * Totals a month's (YYYY-MM) expenses by category and currency.
+ */
+export async function getMonthlyReport(db: Database, ledgerId: number, month: string) {
+  const rows = await db.select({
+    category: schema.expenses.category,
+    currency: schema.expenses.currency,
+    totalMinor: sql<number>`sum(${schema.expenses.amountMinor})`,
+    count: sql<number>`count(*)`,
+  })
+    .from(schema.expenses)
+    .where(and(
+      eq(schema.expenses.ledgerId, ledgerId),
+      notDeleted,
+      gte(schema.expenses.date, `${month}-01`),
+      lt(schema.expenses.date, `${addMonths(month, 1)}-01`),
+    ))
+    .groupBy(schema.expenses.category, schema.expenses.currency)
+    .orderBy(desc(sql`sum(${schema.expenses.amountMinor})`));
+
+  // Summed in minor units, so the totals are exact
+  const totalsMinor: Record<string, number> = {};
+  for (const row of rows) {
+    totalsMinor[row.currency] = (totalsMinor[row.currency] ?? 0) + row.totalMinor;
+  }
+  const totalsByCurrency = Object.fromEntries(
+    Object.entries(totalsMinor).map(([currency, minor]) => [currency, fromMinorUnits(minor, currency)])
+  );
+  const byCategory = rows.map(({ totalMinor, ...row }) => ({ ...row, total: fromMinorUnits(totalMinor, row.currency) }));
+
+  return {
+    month,
+    expenseCount: byCategory.reduce((count, row) => count + row.count, 0),
+    totalsByCurrency,
+    byCategory,
+  };
+}
+
+/**
+ * Registers the ledger's expenses, categories and monthly reports as MCP
+ * resources, and handles resource subscriptions. Returns the notifier that
+ * mutating tools call so subscribers hear about changes.
+ */
+export function registerResources(server: McpServer, db: Database, ledgerId: number): ExpensesChangedNotifier {
+  server.resource(
+    "recent-expenses",
+    "expenses://recent",
+    {
+      description: `The ${RECENT_LIMIT} most recent expenses`,
+      mimeType: "application/json",
+    },
+    async (uri) => {
+      const expenses = await db.select(expenseColumns)
+        .from(schema.expenses)
+        .where(and(eq(schema.expenses.ledgerId, ledgerId), notDeleted))
+        .orderBy(desc(schema.expenses.date))
+        .limit(RECENT_LIMIT);
+      return json(uri, expenses.map(withAmount));
+    }
+  );
+
+  server.resource(
+    "expense",
+    new ResourceTemplate("expenses://{id}", {
+      list: async () => {
+        const expenses = await db.select({
+          id: schema.expenses.id,
+          description: schema.expenses.description,
+          date: schema.expenses.date,
+        })
+          .from(schema.expenses)
+          .where(and(eq(schema.expenses.ledgerId, ledgerId), notDeleted))
+          .orderBy(desc(schema.expenses.date))
+          .limit(LISTED_EXPENSES);
+
+        return {
+          resources: expenses.map((expense) => ({
+            uri: `expenses://${expense.id}`,
+            name: `${expense.description} (${expense.date.slice(0, 10)})`,
+            mimeType: "application/json",
+          })),
+        };
+      },
+    }),
+    {
+      description: "A single expense by ID",
+      mimeType: "application/json",
+    },
+    async (uri, { id }) => {
+      const expenseId = Number(id);
+      const expense = Number.isInteger(expenseId)
+        ? await getExpenseWithTags(db, ledgerId, expenseId)
+        : undefined;
+
+      if (!expense) {
+        throw new Error(`Expense ${id} not found`);
+      }
+      return json(uri, expense);
+    }
+  );
+
+  server.resource(
+    "categories",
+    "categories://list",
+    {
+      description: "The ledger's category tree, each category followed by its subcategories",
+      mimeType: "application/json",
+    },
+    async (uri) => {
+      const categories = await listCategories(db, ledgerId);
+      return json(uri, categories.map(({ name, description, path, depth }) => ({ name, description, path, depth })));
+    }
+  );
+
+  server.resource(
+    "monthly-report",
+    new ResourceTemplate("reports://monthly/{month}", {
+      list: async () => {
+        const months = await db.selectDistinct({ month: sql<string>`substr(${schema.expenses.date}, 1, 7)` })
+          .from(schema.expenses)
+          .where(and(eq(schema.expenses.ledgerId, ledgerId), notDeleted))
+          .orderBy(desc(sql`substr(${schema.expenses.date}, 1, 7)`))
+          .limit(LISTED_MONTHS);
+
+        return {
+          resources: months.map(({ month }) => ({
+            uri: `reports://monthly/${month}`,
+            name: `Spending report for ${month}`,
+            mimeType: "application/json",
+          })),
+        };
+      },
+    }),
+    {
+      description: "Spending totals for a month (YYYY-MM), by category and currency",
+      mimeType: "application/json",
+    },
+    async (uri, { month }) => {
+      if (typeof month !== "string" || !MONTH_PATTERN.test(month)) {
+        throw new Error(`Invalid month "${month}", expected YYYY-MM`);
+      }
+      return json(uri, await getMonthlyReport(db, ledgerId, month));
+    }
+  );
+
+  const subscriptions = new Set<string>();
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  return async (expenses, { created = false, deleted = false } = {}) => {
+    if (!server.isConnected()) {
+      return;
+    }
+
+    const changed = new Set(["expenses://recent", "categories://list"]);
+    for (const expense of expenses) {
+      if (expense.id !== undefined) changed.add(`expenses://${expense.id}`);
+      changed.add(`reports://monthly/${expense.date.slice(0, 7)}`);
+    }
+
+    try {
+      for (const uri of changed) {
+        if (subscriptions.has(uri)) {
+          await server.server.sendResourceUpdated({ uri });
+        }
+      }
+      if (created || deleted) {
+        server.sendResourceListChanged();
+      }
+    } catch (error) {
+      // Notifications are best effort; the change itself already succeeded
+      console.error("Error sending resource notifications:", error);
+    }
+  };
+}
@@ -0,0 +1,126 @@
+import { drizzle } from "drizzle-orm/d1";
+import { Hono } from "hono";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { and, eq, gte, lte, sql } from "drizzle-orm";
+import { withAmount } from "@cf-hackathon/money";
+import * as schema from "./db/schema";
+import { inCategory } from "./categories";
+import { expenseSchema } from "./expenses";
+import { expenseColumns, notDeleted } from "./tags";
+import type { AppEnv, Database } from "./types";
+
+export const searchExpensesSchema = z.object({
+  q: z.string().trim().min(1).describe("Words to search for; all must match (prefixes count)"),
+  category: z.string().optional().describe("Filter by category, including its subcategories"),
+  startDate: z.string().optional().describe("Filter from date (ISO string)"),
+  endDate: z.string().optional().describe("Filter to date (ISO string)"),
+  limit: z.coerce.number().int().positive().max(200).default(20).describe("Limit results"),
+});
+
+const searchResultSchema = expenseSchema.extend({
+  // BM25 score; lower is more relevant
+  rank: z.number(),
+  snippet: z.string(),
+});
+
+// Virtual table maintained by triggers, see drizzle/migrations/0008_expense_search.sql
+const fts = sql.identifier("expenses_fts");
+
+/**
+ * Turns free text into an FTS5 query: every word must match, as a prefix, in
+ * any indexed column. Quoting each word keeps FTS5 operators and punctuation
+ * in user input from producing syntax errors.
+ */
+export function toMatchQuery(text: string) {
+  return text
+    .split(/\s+/)
+    .map((word) => word.replace(/"/g, ""))
+    .filter((word) => word !== "")
+    .map((word) => `"${word}"*`)
+    .join(" ");
+}
+
+/**
+ * Ranks matching expenses with BM25, weighting description matches above tags
+ * and tags above notes, and returns a snippet with the matched words in bold.
+ */
+export async function searchExpenses(db: Database, ledgerId: number, params: z.infer<typeof searchExpensesSchema>) {
+  const match = toMatchQuery(params.q);
+  if (match === "") {
+    return [];
+  }
+
+  const conditions = [
+    sql`${fts} MATCH ${match}`,
+    eq(schema.expenses.ledgerId, ledgerId),
+    notDeleted,
+  ];
+  if (params.category) conditions.push(await inCategory(db, ledgerId, params.category));
+  if (params.startDate) conditions.push(gte(schema.expenses.date, params.startDate));
+  if (params.endDate) conditions.push(lte(schema.expenses.date, params.endDate));
+
+  const rank = sql<number>`bm25(${fts}, 10.0, 5.0, 1.0)`;
+
+  const results = await db.select({
+    ...expenseColumns,
+    rank,
+    snippet: sql<string>`snippet(${fts}, -1, '**', '**', '…', 12)`,
+  })
+    .from(schema.expenses)
+    .innerJoin(sql`${fts}`, sql`${fts}.rowid = ${schema.expenses.id}`)
+    .where(and(...conditions))
+    .orderBy(rank)
+    .limit(params.limit);
+  return results.map(withAmount);
+}
+
+export function registerSearchTools(server: McpServer, db: Database, ledgerId: number) {
+  server.registerTool(
+    "searchExpenses",
+    {
+      description: "Full-text search over expense descriptions, tags and notes, e.g. \"uber\" or \"hotel berlin\". Results are ranked by relevance and include a snippet with the matches in bold.",
+      inputSchema: searchExpensesSchema.shape,
+      outputSchema: { results: z.array(searchResultSchema) },
+    },
+    async (args) => {
+      try {
+        const results = await searchExpenses(db, ledgerId, args);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Found ${results.length} matching expenses${results.length > 0 ? `:\n${results.map((result) => `- ${result.snippet}`).join("\n")}` : ""}`,
+            },
+          ],
+          structuredContent: { results },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error searching expenses: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
+
+export const searchRoutes = new Hono<AppEnv>();
+
+searchRoutes.get("/", async (c) => {
+  const db = drizzle(c.env.DB);
+  const query = searchExpensesSchema.safeParse(c.req.query());
+
+  if (!query.success) {
+    return c.json({ error: "Validation error", details: query.error.errors }, 400);
+  }
+
+  const results = await searchExpenses(db, c.get("ledgerId"), query.data);
+  return c.json({ results });
+});
@@ -0,0 +1,384 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { eq, and } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import { formatAmount, formatMoney, parseMoney } from "@cf-hackathon/money";
+import * as schema from "./db/schema";
+import { registerBudgetTools } from "./budgets";
+import { categorySchema, listCategories, registerCategoryTools, requireCategory } from "./categories";
+import { registerCategorizationTools, resolveExpenseCategory } from "./categorization";
+import { missingRateSchema } from "./currency";
+import {
+  addExpenseSchema,
+  convertedExpenseSchema,
+  deleteExpenseSchema,
+  expenseSchema,
+  expenseSummarySchema,
+  getExpenseSummarySchema,
+  getExpensesSchema,
+  updateExpenseSchema,
+} from "./expenses";
+import { registerExportTools } from "./exports";
+import { completeExpenseEvents, insertedExpenses, recordExpenseEvents, registerHistoryTools } from "./history";
+import { registerImportTools } from "./imports";
+import { listExpenses } from "./listing";
+import { registerPrompts } from "./prompts";
+import { registerReceiptTools } from "./receipts";
+import { registerRecurringTools } from "./recurring";
+import { registerResources } from "./resources";
+import { registerSearchTools } from "./search";
+import { registerSplitTools, rescaleExpenseSplitStatements } from "./splits";
+import { getExpenseSummary } from "./summary";
+import { getExpenseWithTags, linkTagsStatements, notDeleted, registerTagTools, setExpenseTagsStatements } from "./tags";
+import { registerTrashTools, trashExpense } from "./trash";
+import type { Actor, Database, Scope } from "./types";
+
+/**
+ * Builds the MCP server for one ledger, with the tools, resources and prompts
+ * the given scope is allowed to use. Shared by every MCP transport. Changes
+ * to expenses are recorded in their history as made by `actor`.
+ */
+export function createMcpServer(db: Database, receipts: R2Bucket, ledgerId: number, scope: Scope, origin: string, actor: Actor) {
+  const server = new McpServer({
+    name: "expenses-tracker",
+    version: "1.0.0",
+    description: "MCP server for tracking and managing expenses"
+  });
+
+  const notifyExpensesChanged = registerResources(server, db, ledgerId);
+
+  // Add expense tool
+  const addExpenseTool = server.registerTool(
+    "addExpense",
+    {
+      inputSchema: addExpenseSchema.shape,
+      outputSchema: { expense: expenseSchema },
+    },
+    async ({ amount, description, category, date, currency, tags, paymentMethod, receipt, notes }) => {
+      try {
+        const expenseDate = date || new Date().toISOString();
+        const amountMinor = parseMoney(amount, currency || "USD");
+        
+        const [[inserted]] = await db.batch([
+          db.insert(schema.expenses).values({
+            ledgerId,
+            amountMinor,
+            description,
+            category: await resolveExpenseCategory(db, ledgerId, { category, description, amountMinor, currency: currency || "USD", paymentMethod }),
+            date: expenseDate,
+            currency: currency || "USD",
+            paymentMethod,
+            receipt,
+            notes,
+          }).returning(),
+          ...linkTagsStatements(db, ledgerId, tags ?? [], insertedExpenses(1)),
+          recordExpenseEvents(db, actor, "create", insertedExpenses(1)),
+          completeExpenseEvents(db),
+        ]);
+        const newExpense = await getExpenseWithTags(db, ledgerId, inserted.id);
+        await notifyExpensesChanged([newExpense], { created: true });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Expense added successfully: ${newExpense.description}, ${formatMoney(newExpense.amountMinor, newExpense.currency)} (ID ${newExpense.id})`,
+            },
+          ],
+          structuredContent: { expense: newExpense },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error adding expense: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Get expenses tool
+  server.registerTool(
+    "getExpenses",
+    {
+      inputSchema: getExpensesSchema.shape,
+      outputSchema: {
+        expenses: z.array(convertedExpenseSchema),
+        missingRates: z.array(missingRateSchema).optional(),
+        // Pass as `cursor` to get the next page; null on the last page
+        nextCursor: z.string().nullable(),
+        total: z.number(),
+      },
+    },
+    async (args) => {
+      try {
+        const result = await listExpenses(db, ledgerId, args);
+        const missingNote = "missingRates" in result && result.missingRates.length > 0
+          ? ` (no exchange rate to ${args.reportingCurrency} for ${result.missingRates.length} of them)`
+          : "";
+        const moreNote = result.nextCursor ? `; pass nextCursor as cursor for the next ${args.limit}` : "";
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Showing ${result.expenses.length} of ${result.total} expenses${missingNote}${moreNote}`,
+            },
+          ],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error retrieving expenses: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Update expense tool
+  const updateExpenseTool = server.registerTool(
+    "updateExpense",
+    {
+      inputSchema: updateExpenseSchema.shape,
+      outputSchema: { expense: expenseSchema },
+    },
+    async ({ id, amount, description, category, date, currency, tags, paymentMethod, receipt, notes }) => {
+      try {
+        const previous = await getExpenseWithTags(db, ledgerId, id);
+        if (!previous) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Expense with ID ${id} not found`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        const updateData: Partial<typeof schema.expenses.$inferInsert> = {};
+        
+        // A new currency can have a different number of decimals, so the
+        // minor units are re-derived whenever either of them changes
+        if (amount !== undefined || currency !== undefined) {
+          updateData.amountMinor = parseMoney(amount ?? previous.amount, currency ?? previous.currency);
+        }
+        if (description !== undefined) updateData.description = description;
+        if (category !== undefined) updateData.category = (await requireCategory(db, ledgerId, category)).name;
+        if (date !== undefined) updateData.date = date;
+        if (currency !== undefined) updateData.currency = currency;
+        if (paymentMethod !== undefined) updateData.paymentMethod = paymentMethod;
+        if (receipt !== undefined) updateData.receipt = receipt;
+        if (notes !== undefined) updateData.notes = notes;
+
+        if (Object.keys(updateData).length === 0 && tags === undefined) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: "No fields provided to update",
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const where = and(eq(schema.expenses.id, id), eq(schema.expenses.ledgerId, ledgerId), notDeleted)!;
+        const changes: BatchItem<"sqlite">[] = [
+          ...(Object.keys(updateData).length > 0 ? [db.update(schema.expenses).set(updateData).where(where)] : []),
+          ...(tags !== undefined ? setExpenseTagsStatements(db, ledgerId, id, tags) : []),
+          ...(updateData.amountMinor !== undefined
+            ? await rescaleExpenseSplitStatements(db, id, updateData.amountMinor, currency ?? previous.currency)
+            : []),
+        ];
+        await db.batch([
+          recordExpenseEvents(db, actor, "update", where),
+          ...changes,
+          completeExpenseEvents(db),
+        ]);
+
+        const updatedExpense = await getExpenseWithTags(db, ledgerId, id);
+        // A new date can move the expense into a different monthly report
+        await notifyExpensesChanged([previous, updatedExpense]);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Expense ${id} updated successfully`,
+            },
+          ],
+          structuredContent: { expense: updatedExpense },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error updating expense: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Delete expense tool
+  const deleteExpenseTool = server.registerTool(
+    "deleteExpense",
+    {
+      inputSchema: deleteExpenseSchema.shape,
+      // The trashed expense, without its tags
+      outputSchema: { expense: expenseSchema.omit({ tags: true }) },
+    },
+    async ({ id }) => {
+      try {
+        const deletedExpense = await trashExpense(db, ledgerId, id, actor);
+
+        if (!deletedExpense) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Expense with ID ${id} not found`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        await notifyExpensesChanged([deletedExpense], { deleted: true });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Expense ${id} moved to the trash; restoreExpense can bring it back`,
+            },
+          ],
+          structuredContent: { expense: deletedExpense },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error deleting expense: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Get expense summary tool
+  server.registerTool(
+    "getExpenseSummary",
+    {
+      inputSchema: getExpenseSummarySchema.shape,
+      outputSchema: expenseSummarySchema.shape,
+    },
+    async (args) => {
+      try {
+        const summary = await getExpenseSummary(db, ledgerId, args);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: summary.totalAmount === null
+                ? `${summary.totalExpenses} expenses in ${Object.keys(summary.totalsByCurrency ?? {}).length} currencies`
+                : `${summary.totalExpenses} expenses totalling ${formatAmount(summary.totalAmount, summary.currency)}`,
+            },
+          ],
+          structuredContent: summary,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error generating expense summary: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // Get expense categories tool
+  server.registerTool(
+    "getExpenseCategories",
+    {
+      description: "List the ledger's categories as a tree, each followed by its subcategories",
+      outputSchema: { categories: z.array(categorySchema) },
+    },
+    async () => {
+      try {
+        const categories = await listCategories(db, ledgerId);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Found ${categories.length} categories: ${categories.map((category) => category.path).join(", ")}`,
+            },
+          ],
+          structuredContent: { categories },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error retrieving categories: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  const writeTools = [
+    addExpenseTool,
+    updateExpenseTool,
+    deleteExpenseTool,
+    ...registerBudgetTools(server, db, ledgerId),
+    ...registerCategoryTools(server, db, ledgerId, actor),
+    ...registerCategorizationTools(server, db, ledgerId, actor, notifyExpensesChanged),
+    ...registerRecurringTools(server, db, ledgerId),
+    ...registerImportTools(server, db, ledgerId, actor, notifyExpensesChanged),
+    ...registerTagTools(server, db, ledgerId, actor),
+    ...registerReceiptTools(server, db, receipts, ledgerId, origin),
+    ...registerSplitTools(server, db, ledgerId),
+    ...registerTrashTools(server, db, ledgerId, actor, notifyExpensesChanged),
+  ];
+
+  registerExportTools(server, db, ledgerId, origin);
+  registerHistoryTools(server, db, ledgerId);
+  registerSearchTools(server, db, ledgerId);
+  registerPrompts(server, db, ledgerId);
+
+  // Read-only credentials don't get to see, let alone call, mutating tools
+  if (scope !== "write") {
+    for (const tool of writeTools) {
+      tool.disable();
+    }
+  }
+
+  return server;
+}
@@ -0,0 +1,300 @@
+import { DurableObject } from "cloudflare:workers";
+import { drizzle } from "drizzle-orm/d1";
+import { Hono } from "hono";
+import { StreamableHTTPTransport } from "@hono/mcp";
+import type { EventStore } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { isInitializeRequest, JSONRPCMessageSchema, type JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { createMcpServer } from "./server";
+import type { Actor, Bindings, Scope } from "./types";
+
+const KEEPALIVE_MS = 30_000;
+// Events kept per Streamable HTTP session for replay on reconnect
+const MAX_STORED_EVENTS = 1000;
+// Streamable HTTP sessions are forgotten after this long without a request
+const SESSION_IDLE_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Set by the Worker on requests it forwards to a session, see `forwardToSession`
+const CALLER_HEADER = "X-Mcp-Session-Caller";
+
+export type SessionInfo = {
+  // Caller that opened the session; only they may post messages to it
+  userId: number | null;
+  ledgerId: number;
+  scope: Scope;
+  origin: string;
+  // Recorded in the history of expenses changed in the session
+  actor: Actor;
+};
+
+export type ReceiveResult =
+  | { status: 202 }
+  | { status: 400 | 404; error: string };
+
+/**
+ * Server side of the legacy HTTP+SSE MCP transport: messages for the client
+ * are written to the event stream, messages from the client are handed to
+ * `onmessage` by the session that owns the transport.
+ */
+class SseTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private encoder = new TextEncoder();
+  private closed = false;
+
+  constructor(readonly sessionId: string, private writer: WritableStreamDefaultWriter<Uint8Array>) {}
+
+  async start() {}
+
+  async send(message: JSONRPCMessage) {
+    await this.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+  }
+
+  async sendEndpoint(endpoint: string) {
+    await this.write(`event: endpoint\ndata: ${endpoint}\n\n`);
+  }
+
+  // SSE comment line, ignored by clients; keeps proxies from timing out the stream
+  async ping() {
+    await this.write(": ping\n\n");
+  }
+
+  async close() {
+    if (this.closed) return;
+    this.closed = true;
+    await this.writer.close().catch(() => {});
+    this.onclose?.();
+  }
+
+  private async write(chunk: string) {
+    if (this.closed) {
+      throw new Error("SSE stream is closed");
+    }
+
+    try {
+      await this.writer.write(this.encoder.encode(chunk));
+    } catch (error) {
+      // The client went away; tear the session down
+      await this.close();
+      throw error;
+    }
+  }
+}
+
+/**
+ * One legacy HTTP+SSE MCP session. The Durable Object holds the event stream
+ * and the session's MCP server, so the message POSTs reach the same server
+ * whichever Worker isolate receives them.
+ */
+export class McpSession extends DurableObject<Bindings> {
+  private session?: SessionInfo;
+  private transport?: SseTransport;
+  private keepAlive?: ReturnType<typeof setInterval>;
+
+  /**
+   * Opens the session's event stream. The first event tells the client where
+   * to POST its messages. This goes through `fetch` rather than RPC so the
+   * stream can be returned as the response body.
+   */
+  async fetch(request: Request) {
+    if (this.transport) {
+      return Response.json({ error: "Session already open" }, { status: 409 });
+    }
+
+    const { session, endpoint } = await request.json<{ session: SessionInfo; endpoint: string }>();
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const transport = new SseTransport(this.ctx.id.toString(), writable.getWriter());
+    transport.onclose = () => {
+      clearInterval(this.keepAlive);
+      this.transport = undefined;
+      this.session = undefined;
+    };
+
+    const server = createMcpServer(drizzle(this.env.DB), this.env.RECEIPTS, session.ledgerId, session.scope, session.origin, session.actor);
+    await server.connect(transport);
+    this.session = session;
+    this.transport = transport;
+
+    // Not awaited: the write only completes once the client reads the stream
+    transport.sendEndpoint(endpoint).catch(() => {});
+    this.keepAlive = setInterval(() => transport.ping().catch(() => {}), KEEPALIVE_MS);
+
+    return new Response(readable, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive",
+      },
+    });
+  }
+
+  /**
+   * Hands a message posted by the client to the session's MCP server. The
+   * reply, if any, goes out on the event stream.
+   */
+  async receive(caller: Pick<SessionInfo, "userId" | "ledgerId">, body: unknown): Promise<ReceiveResult> {
+    const { session, transport } = this;
+    if (!session || !transport || session.userId !== caller.userId || session.ledgerId !== caller.ledgerId) {
+      return { status: 404, error: "Session not found" };
+    }
+
+    const message = JSONRPCMessageSchema.safeParse(body);
+    if (!message.success) {
+      return { status: 400, error: "Invalid JSON-RPC message" };
+    }
+
+    transport.onmessage?.(message.data);
+    return { status: 202 };
+  }
+}
+
+function sameCaller(a: SessionInfo, b: SessionInfo) {
+  return a.userId === b.userId && a.ledgerId === b.ledgerId && a.scope === b.scope;
+}
+
+/**
+ * Forwards a Streamable HTTP request to its session object along with the
+ * authenticated caller, replacing any caller header the client sent.
+ */
+export function forwardToSession(stub: DurableObjectStub<StreamableMcpSession>, request: Request, caller: SessionInfo) {
+  const forwarded = new Request(request);
+  forwarded.headers.set(CALLER_HEADER, JSON.stringify(caller));
+  return stub.fetch(forwarded);
+}
+
+/**
+ * JSON-RPC error body the transport uses for unknown sessions, so clients
+ * know to start over with a new initialize request.
+ */
+export function sessionNotFound() {
+  return Response.json({
+    jsonrpc: "2.0",
+    error: { code: -32001, message: "Session not found" },
+    id: null,
+  }, { status: 404 });
+}
+
+/**
+ * Stores the messages sent on a session's SSE streams in the Durable Object's
+ * SQLite database so a client reconnecting with `Last-Event-ID` gets what it
+ * missed. Only the most recent events are kept.
+ */
+class SqlEventStore implements EventStore {
+  constructor(private sql: SqlStorage) {
+    sql.exec(`CREATE TABLE IF NOT EXISTS events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      stream_id TEXT NOT NULL,
+      message TEXT NOT NULL
+    )`);
+  }
+
+  async storeEvent(streamId: string, message: JSONRPCMessage) {
+    const { id } = this.sql.exec<{ id: number }>(
+      "INSERT INTO events (stream_id, message) VALUES (?, ?) RETURNING id",
+      streamId,
+      JSON.stringify(message),
+    ).one();
+    this.sql.exec("DELETE FROM events WHERE id <= ?", id - MAX_STORED_EVENTS);
+    return String(id);
+  }
+
+  async replayEventsAfter(
+    lastEventId: string,
+    { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> },
+  ) {
+    const [last] = this.sql.exec<{ stream_id: string }>(
+      "SELECT stream_id FROM events WHERE id = ?",
+      Number(lastEventId),
+    ).toArray();
+    if (!last) {
+      return "";
+    }
+
+    const events = this.sql.exec<{ id: number; message: string }>(
+      "SELECT id, message FROM events WHERE stream_id = ? AND id > ? ORDER BY id",
+      last.stream_id,
+      Number(lastEventId),
+    ).toArray();
+    for (const event of events) {
+      await send(String(event.id), JSON.parse(event.message));
+    }
+    return last.stream_id;
+  }
+}
+
+/**
+ * One Streamable HTTP MCP session, addressed by its `Mcp-Session-Id` (the
+ * Durable Object ID). Holds the session's MCP server so notifications reach
+ * the client's GET stream, and keeps recent events for replay.
+ *
+ * The server lives in memory; if the object is evicted between requests it is
+ * rebuilt by replaying the session's initialize request.
+ */
+export class StreamableMcpSession extends DurableObject<Bindings> {
+  private transport?: StreamableHTTPTransport;
+  private app = new Hono().all("*", (c) => this.transport!.handleRequest(c));
+
+  async fetch(request: Request) {
+    const caller: SessionInfo = JSON.parse(request.headers.get(CALLER_HEADER) ?? "null");
+    const session = await this.ctx.storage.get<SessionInfo>("session");
+
+    if (session) {
+      if (!sameCaller(session, caller)) {
+        return sessionNotFound();
+      }
+      if (!this.transport) {
+        await this.restore(session);
+      }
+    } else {
+      // Only an initialize request can start a session; anything else is for
+      // a session that was deleted or expired
+      const initialize = request.method === "POST"
+        ? await request.clone().json().catch(() => undefined)
+        : undefined;
+      if (!isInitializeRequest(initialize)) {
+        return sessionNotFound();
+      }
+      await this.ctx.storage.put({ session: caller, initialize });
+      await this.start(caller);
+    }
+
+    await this.ctx.storage.setAlarm(Date.now() + SESSION_IDLE_TTL_MS);
+    return this.app.fetch(request);
+  }
+
+  async alarm() {
+    await this.transport?.close();
+    await this.ctx.storage.deleteAll();
+  }
+
+  private start(session: SessionInfo) {
+    const transport = new StreamableHTTPTransport({
+      sessionIdGenerator: () => this.ctx.id.toString(),
+      eventStore: new SqlEventStore(this.ctx.storage.sql),
+    });
+    transport.onclose = () => {
+      this.transport = undefined;
+      // Closed by a DELETE from the client: the session ID is no longer valid
+      this.ctx.waitUntil(this.ctx.storage.deleteAll());
+    };
+
+    const server = createMcpServer(drizzle(this.env.DB), this.env.RECEIPTS, session.ledgerId, session.scope, session.origin, session.actor);
+    this.transport = transport;
+    return server.connect(transport);
+  }
+
+  private async restore(session: SessionInfo) {
+    const initialize = await this.ctx.storage.get<JSONRPCMessage>("initialize");
+    await this.start(session);
+
+    // Re-run the handshake; the client already has its response
+    const response = await this.app.request("/", {
+      method: "POST",
+      headers: { "Accept": "application/json, text/event-stream", "Content-Type": "application/json" },
+      body: JSON.stringify(initialize),
+    });
+    await response.text();
+  }
+}
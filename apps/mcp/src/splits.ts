@@ -0,0 +1,801 @@
+import { drizzle } from "drizzle-orm/d1";
+import { Hono } from "hono";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { and, asc, desc, eq, inArray, sql } from "drizzle-orm";
+import { fromMinorUnits, parseMoney, withAmount } from "@cf-hackathon/money";
+import * as schema from "./db/schema";
+import { currencyCode } from "./currency";
+import { notDeleted } from "./tags";
+import type { AppEnv, Database } from "./types";
+
+type SplitMethod = (typeof schema.expenseSplits.$inferSelect)["method"];
+
+// Above this many people with a non-zero balance, finding the fewest transfers
+// (exponential in the group size) gives way to a greedy pass
+const MAX_EXACT_SETTLEMENT_SIZE = 16;
+
+// Percentage and share split values are stored in hundredths
+const SPLIT_VALUE_SCALE = 100;
+
+const participantName = z.string().trim().min(1);
+
+export const splitExpenseSchema = z.object({
+  expenseId: z.number().describe("Expense to split"),
+  paidBy: participantName.describe("Participant who paid the expense"),
+  method: z.enum(["equal", "percentage", "exact", "shares"]).default("equal")
+    .describe("How the cost is divided: equally, by percentage, by exact amounts or by number of shares"),
+  participants: z.array(z.object({
+    name: participantName.describe("Participant name (created if it doesn't exist yet)"),
+    value: z.number().positive().optional()
+      .describe("Percentage, exact amount or number of shares for this participant; omit for equal splits"),
+  })).min(1).describe("People sharing the cost, including the payer if they share it"),
+});
+
+export const recordSettlementSchema = z.object({
+  from: participantName.describe("Participant who paid the money back"),
+  to: participantName.describe("Participant who received it"),
+  amount: z.number().positive().describe("Amount paid"),
+  currency: currencyCode.default("USD").describe("ISO 4217 currency code"),
+  date: z.string().optional().describe("Date of the payment (ISO string, defaults to today)"),
+  note: z.string().optional().describe("Free-form note, e.g. how it was paid"),
+});
+
+const getBalancesSchema = z.object({
+  currency: z.string().optional().describe("Only report balances in this currency"),
+});
+
+const participantSchema = z.object({
+  id: z.number(),
+  ledgerId: z.number(),
+  name: z.string(),
+  createdAt: z.string(),
+});
+
+const expenseSplitSchema = z.object({
+  expenseId: z.number(),
+  amount: z.number(),
+  currency: z.string(),
+  // null when the expense isn't split
+  method: z.enum(["equal", "percentage", "exact", "shares"]).nullable(),
+  shares: z.array(z.object({
+    participantId: z.number(),
+    name: z.string(),
+    value: z.number().nullable(),
+    paid: z.number(),
+    owed: z.number(),
+  })),
+});
+
+const settlementSchema = z.object({
+  id: z.number(),
+  ledgerId: z.number(),
+  from: z.string(),
+  to: z.string(),
+  amount: z.number(),
+  amountMinor: z.number().int(),
+  currency: z.string(),
+  date: z.string(),
+  note: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+const balancesSchema = z.object({
+  currency: z.string(),
+  // Positive balances are owed money, negative ones owe it
+  balances: z.array(z.object({ participantId: z.number(), name: z.string(), balance: z.number() })),
+  transfers: z.array(z.object({ from: z.string(), to: z.string(), amount: z.number() })),
+});
+
+/**
+ * Divides `total` minor units in proportion to `weights`. Rounding leftovers go to
+ * the largest remainders, so the parts always add up to the total.
+ */
+function allocate(total: number, weights: number[]) {
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  const exact = weights.map((weight) => (total * weight) / weightSum);
+  const parts = exact.map(Math.floor);
+  let leftover = total - parts.reduce((sum, part) => sum + part, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - parts[index] }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break;
+    parts[index] += 1;
+    leftover -= 1;
+  }
+  return parts;
+}
+
+/**
+ * Works out each participant's share of an expense, in minor units.
+ */
+function computeShares(total: number, currency: string, method: SplitMethod, values: Array<number | undefined>) {
+  if (method === "equal") {
+    return allocate(total, values.map(() => 1));
+  }
+
+  if (values.some((value) => value === undefined)) {
+    throw new Error(`Every participant needs a value for a ${method} split`);
+  }
+  const given = values as number[];
+
+  if (method === "percentage") {
+    const percent = given.reduce((sum, value) => sum + value, 0);
+    if (Math.abs(percent - 100) > 0.01) {
+      throw new Error(`Percentages add up to ${percent}, not 100`);
+    }
+    return allocate(total, given);
+  }
+
+  if (method === "exact") {
+    const shares = given.map((value) => parseMoney(value, currency));
+    const sum = shares.reduce((acc, share) => acc + share, 0);
+    if (sum !== total) {
+      throw new Error(
+        `Exact amounts add up to ${fromMinorUnits(sum, currency)}, not the expense amount ${fromMinorUnits(total, currency)}`
+      );
+    }
+    return shares;
+  }
+
+  return allocate(total, given);
+}
+
+/**
+ * Returns the IDs of the named participants, creating the ones the ledger
+ * doesn't have yet.
+ */
+async function ensureParticipants(db: Database, ledgerId: number, names: string[]) {
+  const existing = await db.select({ id: schema.participants.id, name: schema.participants.name })
+    .from(schema.participants)
+    .where(and(eq(schema.participants.ledgerId, ledgerId), inArray(schema.participants.name, names)));
+  const ids = new Map(existing.map((row) => [row.name, row.id]));
+
+  const missing = names.filter((name) => !ids.has(name));
+  if (missing.length > 0) {
+    const created = await db.insert(schema.participants)
+      .values(missing.map((name) => ({ ledgerId, name })))
+      .returning({ id: schema.participants.id, name: schema.participants.name });
+    for (const row of created) {
+      ids.set(row.name, row.id);
+    }
+  }
+  return ids;
+}
+
+async function findParticipant(db: Database, ledgerId: number, name: string) {
+  const [participant] = await db.select()
+    .from(schema.participants)
+    .where(and(eq(schema.participants.ledgerId, ledgerId), eq(schema.participants.name, name)));
+  if (!participant) {
+    throw new Error(`Unknown participant: ${name}`);
+  }
+  return participant;
+}
+
+export async function listParticipants(db: Database, ledgerId: number) {
+  return db.select()
+    .from(schema.participants)
+    .where(eq(schema.participants.ledgerId, ledgerId))
+    .orderBy(asc(schema.participants.name));
+}
+
+/**
+ * Returns how an expense is split, or null if the expense doesn't exist.
+ * Expenses that aren't split have no shares.
+ */
+export async function getExpenseSplit(db: Database, ledgerId: number, expenseId: number) {
+  const [expense] = await db.select()
+    .from(schema.expenses)
+    .where(and(eq(schema.expenses.id, expenseId), eq(schema.expenses.ledgerId, ledgerId), notDeleted));
+  if (!expense) {
+    return null;
+  }
+
+  const shares = await db.select({
+    participantId: schema.expenseSplits.participantId,
+    name: schema.participants.name,
+    method: schema.expenseSplits.method,
+    valueMinor: schema.expenseSplits.valueMinor,
+    paidMinor: schema.expenseSplits.paidMinor,
+    owedMinor: schema.expenseSplits.owedMinor,
+  })
+    .from(schema.expenseSplits)
+    .innerJoin(schema.participants, eq(schema.participants.id, schema.expenseSplits.participantId))
+    .where(eq(schema.expenseSplits.expenseId, expenseId))
+    .orderBy(asc(schema.expenseSplits.id));
+
+  return {
+    expenseId,
+    amount: fromMinorUnits(expense.amountMinor, expense.currency),
+    currency: expense.currency,
+    method: shares[0]?.method ?? null,
+    shares: shares.map(({ method, valueMinor, paidMinor, owedMinor, ...share }) => ({
+      ...share,
+      value: valueMinor === null
+        ? null
+        : method === "exact" ? fromMinorUnits(valueMinor, expense.currency) : valueMinor / SPLIT_VALUE_SCALE,
+      paid: fromMinorUnits(paidMinor, expense.currency),
+      owed: fromMinorUnits(owedMinor, expense.currency),
+    })),
+  };
+}
+
+/**
+ * Splits an expense between participants, replacing any previous split.
+ * The payer is recorded as having paid the whole amount.
+ */
+export async function splitExpense(db: Database, ledgerId: number, data: z.infer<typeof splitExpenseSchema>) {
+  const names = data.participants.map(({ name }) => name);
+  if (new Set(names).size !== names.length) {
+    throw new Error("Each participant can only appear once in a split");
+  }
+
+  const [expense] = await db.select()
+    .from(schema.expenses)
+    .where(and(eq(schema.expenses.id, data.expenseId), eq(schema.expenses.ledgerId, ledgerId), notDeleted));
+  if (!expense) {
+    throw new Error(`Expense with ID ${data.expenseId} not found`);
+  }
+
+  const shares = computeShares(
+    expense.amountMinor,
+    expense.currency,
+    data.method,
+    data.participants.map(({ value }) => value)
+  );
+  const ids = await ensureParticipants(db, ledgerId, [...new Set([...names, data.paidBy])]);
+
+  const rows = data.participants.map(({ name, value }, index) => ({
+    expenseId: expense.id,
+    participantId: ids.get(name)!,
+    method: data.method,
+    valueMinor: data.method === "equal"
+      ? null
+      : data.method === "exact" ? shares[index] : Math.round(value! * SPLIT_VALUE_SCALE),
+    paidMinor: name === data.paidBy ? expense.amountMinor : 0,
+    owedMinor: shares[index],
+  }));
+  if (!names.includes(data.paidBy)) {
+    rows.push({
+      expenseId: expense.id,
+      participantId: ids.get(data.paidBy)!,
+      method: data.method,
+      valueMinor: null,
+      paidMinor: expense.amountMinor,
+      owedMinor: 0,
+    });
+  }
+
+  await db.batch([
+    db.delete(schema.expenseSplits).where(eq(schema.expenseSplits.expenseId, expense.id)),
+    db.insert(schema.expenseSplits).values(rows),
+  ]);
+
+  return (await getExpenseSplit(db, ledgerId, expense.id))!;
+}
+
+/**
+ * Batch statements that scale an expense's split to a new amount, keeping
+ * everyone's proportion of what was paid and owed. Used when the expense
+ * amount or currency is edited, in the same batch as the edit;
+ * `amountMinor` is the new amount in `currency`'s minor units.
+ */
+export async function rescaleExpenseSplitStatements(db: Database, expenseId: number, amountMinor: number, currency: string) {
+  const shares = await db.select()
+    .from(schema.expenseSplits)
+    .where(eq(schema.expenseSplits.expenseId, expenseId))
+    .orderBy(asc(schema.expenseSplits.id));
+
+  // The old shares only serve as weights, so their currency doesn't matter
+  const paid = allocate(amountMinor, shares.map((share) => share.paidMinor));
+  const owed = allocate(amountMinor, shares.map((share) => share.owedMinor));
+  return shares.map((share, index) =>
+    db.update(schema.expenseSplits)
+      .set({ paidMinor: paid[index], owedMinor: owed[index] })
+      .where(eq(schema.expenseSplits.id, share.id))
+  );
+}
+
+export async function listSettlements(db: Database, ledgerId: number) {
+  const from = sql<string>`(select name from ${schema.participants} where id = ${schema.settlements.fromParticipantId})`;
+  const to = sql<string>`(select name from ${schema.participants} where id = ${schema.settlements.toParticipantId})`;
+
+  const settlements = await db.select({
+    id: schema.settlements.id,
+    ledgerId: schema.settlements.ledgerId,
+    from,
+    to,
+    amountMinor: schema.settlements.amountMinor,
+    currency: schema.settlements.currency,
+    date: schema.settlements.date,
+    note: schema.settlements.note,
+    createdAt: schema.settlements.createdAt,
+  })
+    .from(schema.settlements)
+    .where(eq(schema.settlements.ledgerId, ledgerId))
+    .orderBy(desc(schema.settlements.date), desc(schema.settlements.id));
+  return settlements.map(withAmount);
+}
+
+/**
+ * Records a payment from one participant to another, which moves both of
+ * their balances towards zero.
+ */
+export async function recordSettlement(db: Database, ledgerId: number, data: z.infer<typeof recordSettlementSchema>) {
+  if (data.from === data.to) {
+    throw new Error("A settlement needs two different participants");
+  }
+
+  const from = await findParticipant(db, ledgerId, data.from);
+  const to = await findParticipant(db, ledgerId, data.to);
+
+  const [settlement] = await db.insert(schema.settlements).values({
+    ledgerId,
+    fromParticipantId: from.id,
+    toParticipantId: to.id,
+    amountMinor: parseMoney(data.amount, data.currency),
+    currency: data.currency,
+    date: data.date || new Date().toISOString().slice(0, 10),
+    note: data.note,
+  }).returning();
+
+  const { fromParticipantId: _, toParticipantId: __, ...rest } = settlement;
+  return { ...withAmount(rest), from: from.name, to: to.name };
+}
+
+/**
+ * Greedily pays the largest debt to the largest credit. Settles a group whose
+ * balances sum to zero in at most one transfer fewer than its size.
+ */
+function greedyTransfers(balances: Map<number, number>) {
+  const remaining = new Map(balances);
+  const transfers: Array<{ from: number; to: number; minor: number }> = [];
+
+  for (;;) {
+    const entries = [...remaining].filter(([, minor]) => minor !== 0);
+    if (entries.length === 0) break;
+
+    const [debtor, debt] = entries.reduce((min, entry) => (entry[1] < min[1] ? entry : min));
+    const [creditor, credit] = entries.reduce((max, entry) => (entry[1] > max[1] ? entry : max));
+    // Only reachable if the balances don't sum to zero
+    if (debt >= 0 || credit <= 0) break;
+    const minor = Math.min(-debt, credit);
+
+    transfers.push({ from: debtor, to: creditor, minor });
+    remaining.set(debtor, debt + minor);
+    remaining.set(creditor, credit - minor);
+  }
+  return transfers;
+}
+
+/**
+ * Finds a smallest set of transfers that brings every balance (in minor units) to
+ * zero. Settling n people takes n - k transfers, where k is the number of
+ * groups they can be split into whose balances each sum to zero, so this
+ * looks for the most such groups (dynamic programming over subsets) and
+ * settles each group on its own.
+ */
+export function settleBalances(balances: Map<number, number>) {
+  const people = [...balances].filter(([, minor]) => minor !== 0);
+  if (people.length > MAX_EXACT_SETTLEMENT_SIZE) {
+    return greedyTransfers(new Map(people));
+  }
+
+  const size = 1 << people.length;
+  const sums = new Array<number>(size).fill(0);
+  // Most zero-sum groups each subset can be split into, and the member to
+  // take out of the subset to get there
+  const groups = new Array<number>(size).fill(0);
+  const removed = new Array<number>(size).fill(0);
+
+  for (let mask = 1; mask < size; mask++) {
+    const lowest = 31 - Math.clz32(mask & -mask);
+    sums[mask] = sums[mask & (mask - 1)] + people[lowest][1];
+
+    let best = -1;
+    for (let i = 0; i < people.length; i++) {
+      if (mask & (1 << i) && groups[mask ^ (1 << i)] > best) {
+        best = groups[mask ^ (1 << i)];
+        removed[mask] = i;
+      }
+    }
+    groups[mask] = best + (sums[mask] === 0 ? 1 : 0);
+  }
+
+  // Taking members out one by one, every subset on the way that sums to zero
+  // closes a group
+  const transfers: Array<{ from: number; to: number; minor: number }> = [];
+  let group = new Map<number, number>();
+  for (let mask = size - 1; mask > 0;) {
+    const [participantId, minor] = people[removed[mask]];
+    group.set(participantId, minor);
+    mask ^= 1 << removed[mask];
+
+    if (sums[mask] === 0) {
+      transfers.push(...greedyTransfers(group));
+      group = new Map();
+    }
+  }
+  return transfers;
+}
+
+/**
+ * Computes each participant's balance per currency from the split expenses
+ * and settlements, and the transfers that would settle everyone up.
+ */
+export async function getBalances(db: Database, ledgerId: number, { currency }: z.infer<typeof getBalancesSchema> = {}) {
+  const fromSplits = await db.select({
+    participantId: schema.expenseSplits.participantId,
+    currency: schema.expenses.currency,
+    net: sql<number>`sum(${schema.expenseSplits.paidMinor} - ${schema.expenseSplits.owedMinor})`,
+  })
+    .from(schema.expenseSplits)
+    .innerJoin(schema.expenses, eq(schema.expenses.id, schema.expenseSplits.expenseId))
+    .where(and(eq(schema.expenses.ledgerId, ledgerId), notDeleted))
+    .groupBy(schema.expenseSplits.participantId, schema.expenses.currency);
+
+  const settlements = await db.select()
+    .from(schema.settlements)
+    .where(eq(schema.settlements.ledgerId, ledgerId));
+
+  // currency -> participant ID -> balance in minor units
+  const byCurrency = new Map<string, Map<number, number>>();
+  const add = (code: string, participantId: number, minor: number) => {
+    const balances = byCurrency.get(code) ?? new Map<number, number>();
+    balances.set(participantId, (balances.get(participantId) ?? 0) + minor);
+    byCurrency.set(code, balances);
+  };
+
+  for (const row of fromSplits) {
+    add(row.currency, row.participantId, row.net);
+  }
+  for (const settlement of settlements) {
+    // Paying someone back reduces what you owe and what they are owed
+    add(settlement.currency, settlement.fromParticipantId, settlement.amountMinor);
+    add(settlement.currency, settlement.toParticipantId, -settlement.amountMinor);
+  }
+
+  const names = new Map((await listParticipants(db, ledgerId)).map((participant) => [participant.id, participant.name]));
+
+  return [...byCurrency]
+    .filter(([code]) => !currency || code === currency)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([code, balances]) => ({
+      currency: code,
+      balances: [...balances]
+        .map(([participantId, minor]) => ({ participantId, name: names.get(participantId)!, balance: fromMinorUnits(minor, code) }))
+        .sort((a, b) => b.balance - a.balance || a.name.localeCompare(b.name)),
+      transfers: settleBalances(balances).map(({ from, to, minor }) => ({
+        from: names.get(from)!,
+        to: names.get(to)!,
+        amount: fromMinorUnits(minor, code),
+      })),
+    }));
+}
+
+/**
+ * Registers the split and settlement tools on an MCP server. Returns the tools
+ * that mutate data so the caller can disable them for read-only credentials.
+ */
+export function registerSplitTools(server: McpServer, db: Database, ledgerId: number): RegisteredTool[] {
+  const splitExpenseTool = server.registerTool(
+    "splitExpense",
+    {
+      description: "Split an expense between people, e.g. \"I paid 120 for dinner, split 3 ways\". Replaces any previous split of the expense.",
+      inputSchema: splitExpenseSchema.shape,
+      outputSchema: { split: expenseSplitSchema },
+    },
+    async (args) => {
+      try {
+        const split = await splitExpense(db, ledgerId, args);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Expense ${split.expenseId} split (${split.method}): ${split.shares.map((share) => `${share.name} owes ${share.owed}`).join(", ")} (${split.currency}), paid by ${args.paidBy}`,
+            },
+          ],
+          structuredContent: { split },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error splitting expense: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    "getExpenseSplit",
+    {
+      description: "Show who paid an expense and each person's share of it",
+      inputSchema: {
+        expenseId: z.number().describe("Expense ID"),
+      },
+      outputSchema: { split: expenseSplitSchema },
+    },
+    async ({ expenseId }) => {
+      try {
+        const split = await getExpenseSplit(db, ledgerId, expenseId);
+
+        if (!split) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Expense with ID ${expenseId} not found`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: split.shares.length > 0
+                ? split.shares.map((share) => `${share.name}: paid ${share.paid}, owes ${share.owed}`).join("\n")
+                : `Expense ${expenseId} is not split`,
+            },
+          ],
+          structuredContent: { split },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error retrieving split: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  const removeExpenseSplitTool = server.registerTool(
+    "removeExpenseSplit",
+    {
+      description: "Stop splitting an expense, so it no longer counts towards anyone's balance",
+      inputSchema: {
+        expenseId: z.number().describe("Expense ID"),
+      },
+      outputSchema: { expenseId: z.number(), removed: z.number() },
+    },
+    async ({ expenseId }) => {
+      try {
+        if (!await getExpenseSplit(db, ledgerId, expenseId)) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Expense with ID ${expenseId} not found`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const removed = await db.delete(schema.expenseSplits)
+          .where(eq(schema.expenseSplits.expenseId, expenseId))
+          .returning();
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Split of expense ${expenseId} removed`,
+            },
+          ],
+          structuredContent: { expenseId, removed: removed.length },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error removing split: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    "getParticipants",
+    {
+      description: "List the people expenses are split between",
+      outputSchema: { participants: z.array(participantSchema) },
+    },
+    async () => {
+      try {
+        const participants = await listParticipants(db, ledgerId);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: participants.map((participant) => participant.name).join(", ") || "No participants yet",
+            },
+          ],
+          structuredContent: { participants },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error retrieving participants: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  const recordSettlementTool = server.registerTool(
+    "recordSettlement",
+    {
+      description: "Record that one person paid another back, to settle up shared costs",
+      inputSchema: recordSettlementSchema.shape,
+      outputSchema: { settlement: settlementSchema },
+    },
+    async (args) => {
+      try {
+        const settlement = await recordSettlement(db, ledgerId, args);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Settlement recorded: ${settlement.from} paid ${settlement.to} ${settlement.amount} ${settlement.currency} (ID ${settlement.id})`,
+            },
+          ],
+          structuredContent: { settlement },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error recording settlement: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    "getBalances",
+    {
+      description: "Compute who owes whom from split expenses and settlements, per currency, with the fewest transfers that would settle everyone up",
+      inputSchema: getBalancesSchema.shape,
+      outputSchema: { currencies: z.array(balancesSchema) },
+    },
+    async (args) => {
+      try {
+        const currencies = await getBalances(db, ledgerId, args);
+        const transfers = currencies.flatMap(({ currency, transfers }) =>
+          transfers.map((transfer) => `${transfer.from} pays ${transfer.to} ${transfer.amount} ${currency}`)
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: transfers.join("\n") || "Everyone is settled up",
+            },
+          ],
+          structuredContent: { currencies },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error computing balances: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  return [splitExpenseTool, removeExpenseSplitTool, recordSettlementTool];
+}
+
+export const splitRoutes = new Hono<AppEnv>();
+
+splitRoutes.get("/participants", async (c) => {
+  const db = drizzle(c.env.DB);
+  const participants = await listParticipants(db, c.get("ledgerId"));
+  return c.json({ participants });
+});
+
+splitRoutes.get("/balances", async (c) => {
+  const db = drizzle(c.env.DB);
+  const currencies = await getBalances(db, c.get("ledgerId"), getBalancesSchema.parse(c.req.query()));
+  return c.json({ currencies });
+});
+
+splitRoutes.get("/settlements", async (c) => {
+  const db = drizzle(c.env.DB);
+  const settlements = await listSettlements(db, c.get("ledgerId"));
+  return c.json({ settlements });
+});
+
+splitRoutes.post("/settlements", async (c) => {
+  const db = drizzle(c.env.DB);
+  const data = await c.req.json();
+
+  try {
+    const settlement = await recordSettlement(db, c.get("ledgerId"), recordSettlementSchema.parse(data));
+    return c.json({ settlement }, 201);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: "Validation error", details: error.errors }, 400);
+    }
+    return c.json({ error: error instanceof Error ? error.message : "Failed to record settlement" }, 400);
+  }
+});
+
+splitRoutes.get("/expenses/:id", async (c) => {
+  const db = drizzle(c.env.DB);
+  const split = await getExpenseSplit(db, c.get("ledgerId"), Number.parseInt(c.req.param("id")));
+
+  if (!split) {
+    return c.json({ error: "Expense not found" }, 404);
+  }
+
+  return c.json({ split });
+});
+
+splitRoutes.put("/expenses/:id", async (c) => {
+  const db = drizzle(c.env.DB);
+  const id = Number.parseInt(c.req.param("id"));
+  const data = await c.req.json();
+
+  if (!await getExpenseSplit(db, c.get("ledgerId"), id)) {
+    return c.json({ error: "Expense not found" }, 404);
+  }
+
+  try {
+    const split = await splitExpense(db, c.get("ledgerId"), splitExpenseSchema.parse({ ...data, expenseId: id }));
+    return c.json({ split });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: "Validation error", details: error.errors }, 400);
+    }
+    return c.json({ error: error instanceof Error ? error.message : "Failed to split expense" }, 400);
+  }
+});
+
+splitRoutes.delete("/expenses/:id", async (c) => {
+  const db = drizzle(c.env.DB);
+  const id = Number.parseInt(c.req.param("id"));
+
+  if (!await getExpenseSplit(db, c.get("ledgerId"), id)) {
+    return c.json({ error: "Expense not found" }, 404);
+  }
+
+  await db.delete(schema.expenseSplits).where(eq(schema.expenseSplits.expenseId, id));
+  return c.json({ message: "Split removed successfully" });
+});
@@ -0,0 +1,338 @@
+import { z } from "zod";
+import { and, eq, gte, inArray, lte, sql, type SQL } from "drizzle-orm";
+import { fromMinorUnits, toMinorUnits } from "@cf-hackathon/money";
+import * as schema from "./db/schema";
+import { listCategories, rollUpCategoryTotals } from "./categories";
+import { loadRateTable, type MissingRate } from "./currency";
+import { getExpenseSummarySchema, summaryGroupSchema, summaryGrouping } from "./expenses";
+import { addMonths } from "./resources";
+import { notDeleted } from "./tags";
+import type { Database } from "./types";
+
+type Grouping = z.infer<typeof summaryGrouping>;
+type SummaryGroup = z.infer<typeof summaryGroupSchema>;
+
+const DAYS_OF_WEEK = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const day = sql<string>`substr(${schema.expenses.date}, 1, 10)`;
+
+/**
+ * SQL expression for the key an expense is grouped under
+ */
+function groupKey(grouping: Grouping): SQL<string> {
+  switch (grouping) {
+    case "category":
+      return sql`${schema.expenses.category}`;
+    case "paymentMethod":
+      return sql`coalesce(${schema.expenses.paymentMethod}, 'Unknown')`;
+    case "currency":
+      return sql`${schema.expenses.currency}`;
+    case "tag":
+      return sql`coalesce(${schema.tags.name}, 'Untagged')`;
+    case "week":
+      // The Monday the week starts on
+      return sql`date(${day}, 'weekday 0', '-6 days')`;
+    case "month":
+      return sql`substr(${schema.expenses.date}, 1, 7)`;
+    case "quarter":
+      return sql`substr(${schema.expenses.date}, 1, 4) || '-Q' || ((cast(substr(${schema.expenses.date}, 6, 2) as integer) + 2) / 3)`;
+    case "year":
+      return sql`substr(${schema.expenses.date}, 1, 4)`;
+    case "dayOfWeek":
+      return sql`strftime('%w', ${day})`;
+  }
+}
+
+function previousWeek(week: string) {
+  const date = new Date(`${week}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() - 7);
+  return date.toISOString().slice(0, 10);
+}
+
+function previousQuarter(quarter: string) {
+  const [year, number] = quarter.split("-Q").map(Number);
+  return number === 1 ? `${year - 1}-Q4` : `${year}-Q${number - 1}`;
+}
+
+// Groupings by period, and the key of the period before a given one. Keys of
+// the same grouping sort chronologically as strings.
+const PREVIOUS_PERIOD: Partial<Record<Grouping, (key: string) => string>> = {
+  week: previousWeek,
+  month: (month) => addMonths(month, -1),
+  quarter: previousQuarter,
+  year: (year) => String(Number(year) - 1),
+};
+
+// Totals in minor units, by currency
+type Totals = Map<string, { sum: number; count: number; min: number; max: number }>;
+
+type Node = { totals: Totals; children: Map<string, Node> };
+
+function addTotals(totals: Totals, currency: string, row: { sum: number; count: number; min: number; max: number }) {
+  const current = totals.get(currency);
+  totals.set(currency, current
+    ? {
+      sum: current.sum + row.sum,
+      count: current.count + row.count,
+      min: Math.min(current.min, row.min),
+      max: Math.max(current.max, row.max),
+    }
+    : row);
+}
+
+/**
+ * Totals the matching expenses grouped by `levels`, and always by currency
+ * since minor units of different currencies can't be added. With a reporting
+ * currency they are also grouped by day so each day can be converted at its
+ * own rate.
+ */
+async function aggregate(db: Database, conditions: SQL[], levels: Grouping[], byDay: boolean) {
+  const keys = levels.map(groupKey);
+  let query = db.select({
+    keys: sql<string>`json_array(${sql.join(keys, sql`, `)})`.mapWith((value: string) => JSON.parse(value) as string[]),
+    currency: schema.expenses.currency,
+    day: byDay ? day : sql<string>`''`,
+    sum: sql<number>`sum(${schema.expenses.amountMinor})`,
+    count: sql<number>`count(*)`,
+    min: sql<number>`min(${schema.expenses.amountMinor})`,
+    max: sql<number>`max(${schema.expenses.amountMinor})`,
+  })
+    .from(schema.expenses)
+    .$dynamic();
+
+  if (levels.includes("tag")) {
+    query = query
+      .leftJoin(schema.expenseTags, eq(schema.expenseTags.expenseId, schema.expenses.id))
+      .leftJoin(schema.tags, eq(schema.tags.id, schema.expenseTags.tagId));
+  }
+
+  return query
+    .where(and(...conditions))
+    .groupBy(...keys, schema.expenses.currency, ...(byDay ? [day] : []));
+}
+
+type AggregateRow = Awaited<ReturnType<typeof aggregate>>[number];
+
+/**
+ * Orders groups: periods chronologically, days of the week from Monday, and
+ * anything else by total, largest first, or by count when the totals are in
+ * several currencies
+ */
+function sortGroups(grouping: Grouping, groups: Array<[string, SummaryGroup]>) {
+  if (grouping === "dayOfWeek") {
+    return groups.sort(([a], [b]) => (Number(a) + 6) % 7 - (Number(b) + 6) % 7);
+  }
+  if (PREVIOUS_PERIOD[grouping]) {
+    return groups.sort(([a], [b]) => a.localeCompare(b));
+  }
+  return groups.sort(([, a], [, b]) => (b.total ?? b.count) - (a.total ?? a.count));
+}
+
+/**
+ * Totals expenses by any one or two of category, payment method, currency,
+ * tag, period or day of the week. The grouping happens in SQL; only the
+ * totals per group and currency reach the Worker.
+ */
+export async function getExpenseSummary(
+  db: Database,
+  ledgerId: number,
+  { startDate, endDate, groupBy, thenBy, currency, reportingCurrency }: z.input<typeof getExpenseSummarySchema>,
+) {
+  if (thenBy && !groupBy) {
+    throw new Error("thenBy needs a groupBy");
+  }
+  if (thenBy && thenBy === groupBy) {
+    throw new Error("thenBy must differ from groupBy");
+  }
+
+  const conditions = [eq(schema.expenses.ledgerId, ledgerId), notDeleted];
+  if (startDate) conditions.push(gte(schema.expenses.date, startDate));
+  if (endDate) conditions.push(lte(schema.expenses.date, endDate));
+  if (currency) conditions.push(eq(schema.expenses.currency, currency));
+
+  const levels = [groupBy, thenBy].filter((grouping): grouping is Grouping => grouping !== undefined);
+  // One query per level, since an expense can be in several tag groups and
+  // adding up the level below would count it more than once
+  const results = await Promise.all(
+    [[], ...levels.map((_, index) => levels.slice(0, index + 1))]
+      .map((prefix) => aggregate(db, conditions, prefix, Boolean(reportingCurrency)))
+  );
+  const currencies = [...new Set(results[0].map((row) => row.currency))];
+
+  // Convert into the reporting currency a day at a time; expenses without a
+  // rate are left out of the totals and listed instead
+  let missingRates: MissingRate[] = [];
+  let convert = (row: AggregateRow): AggregateRow | undefined => row;
+  if (reportingCurrency) {
+    const latestDate = results[0].reduce((max, row) => (row.day > max ? row.day : max), "");
+    const rates = currencies.some((code) => code !== reportingCurrency)
+      ? await loadRateTable(db, latestDate)
+      : undefined;
+    const toReporting = (minor: number, code: string, rate: number) =>
+      toMinorUnits(fromMinorUnits(minor, code) * rate, reportingCurrency);
+
+    convert = (row) => {
+      const rate = row.currency === reportingCurrency ? 1 : rates?.rate(row.currency, reportingCurrency, row.day);
+      if (rate === undefined) return undefined;
+      return {
+        ...row,
+        currency: reportingCurrency,
+        sum: toReporting(row.sum, row.currency, rate),
+        min: toReporting(row.min, row.currency, rate),
+        max: toReporting(row.max, row.currency, rate),
+      };
+    };
+
+    const missing = new Set(results[0].filter((row) => !convert(row)).map((row) => `${row.currency} ${row.day}`));
+    if (missing.size > 0) {
+      const expenses = await db.select({
+        id: schema.expenses.id,
+        currency: schema.expenses.currency,
+        date: schema.expenses.date,
+      })
+        .from(schema.expenses)
+        .where(and(...conditions, inArray(schema.expenses.currency, [...missing].map((key) => key.split(" ")[0]))));
+      missingRates = expenses
+        .map((expense) => ({ expenseId: expense.id, currency: expense.currency, date: expense.date.slice(0, 10) }))
+        .filter((expense) => missing.has(`${expense.currency} ${expense.date}`));
+    }
+  }
+
+  const root: Node = { totals: new Map(), children: new Map() };
+  for (const rows of results) {
+    for (const row of rows) {
+      const converted = convert(row);
+      if (!converted) continue;
+
+      // Each query fills in the totals of its own level
+      let node = root;
+      for (const key of converted.keys) {
+        const child = node.children.get(key) ?? { totals: new Map(), children: new Map() };
+        node.children.set(key, child);
+        node = child;
+      }
+      addTotals(node.totals, converted.currency, converted);
+    }
+  }
+
+  const summaryCurrency = reportingCurrency || currency || (currencies.length === 1 ? currencies[0] : "Mixed");
+  // Amounts in different currencies can't be added up or compared, so without
+  // a reporting currency there are only totals per currency
+  const mixed = !reportingCurrency && currencies.length > 1;
+  const round = (amount: number) => fromMinorUnits(toMinorUnits(amount, summaryCurrency), summaryCurrency);
+  const stats = (totals: Totals) => {
+    if (mixed) {
+      return {
+        total: null,
+        count: [...totals.values()].reduce((sum, row) => sum + row.count, 0),
+        average: null,
+        min: null,
+        max: null,
+        totalsByCurrency: Object.fromEntries([...totals].map(([code, row]) => [code, fromMinorUnits(row.sum, code)])),
+      };
+    }
+
+    let total = 0, count = 0, min = Infinity, max = -Infinity;
+    for (const [code, row] of totals) {
+      total += fromMinorUnits(row.sum, code);
+      count += row.count;
+      min = Math.min(min, fromMinorUnits(row.min, code));
+      max = Math.max(max, fromMinorUnits(row.max, code));
+    }
+    return count === 0
+      ? { total: 0, count: 0, average: 0, min: 0, max: 0 }
+      : { total, count, average: round(total / count), min, max };
+  };
+
+  const overall = stats(root.totals);
+  const percentOf = (total: number | null) => {
+    if (total === null || overall.total === null) return null;
+    return overall.total > 0 ? Math.round((total / overall.total) * 10000) / 100 : 0;
+  };
+
+  // Adds the change from `previous`, the group for the period before, or
+  // nothing when that period is before the summary starts
+  const withChange = (group: SummaryGroup, previous: { total: number | null } | null) => {
+    if (!previous || group.total === null || previous.total === null) return group;
+    const change = round(group.total - previous.total);
+    return {
+      ...group,
+      previousTotal: previous.total,
+      change,
+      changePercent: previous.total === 0 ? null : Math.round((change / previous.total) * 10000) / 100,
+    };
+  };
+
+  // Periods are compared with the one before among their siblings
+  const previousSibling = (grouping: Grouping, nodes: Map<string, Node>) => {
+    const previousPeriod = PREVIOUS_PERIOD[grouping];
+    const first = [...nodes.keys()].sort()[0];
+    return (key: string) => {
+      const previousKey = previousPeriod?.(key);
+      if (previousKey === undefined || previousKey < first) return null;
+      const previous = nodes.get(previousKey);
+      return previous ? stats(previous.totals) : { total: 0 };
+    };
+  };
+
+  const build = (
+    grouping: Grouping,
+    nodes: Map<string, Node>,
+    previousOf: (key: string) => { total: number | null } | null,
+    subgroupsOf?: (key: string, node: Node) => Record<string, SummaryGroup>,
+  ): Record<string, SummaryGroup> => {
+    const groups = [...nodes].map(([key, node]) => {
+      const group = stats(node.totals);
+      return [key, { ...group, percentOfTotal: percentOf(group.total) }] as [string, SummaryGroup];
+    });
+    return Object.fromEntries(sortGroups(grouping, groups).map(([key, group]) => [
+      grouping === "dayOfWeek" ? DAYS_OF_WEEK[Number(key)] : key,
+      {
+        ...withChange(group, previousOf(key)),
+        ...(subgroupsOf && { subgroups: subgroupsOf(key, nodes.get(key)!) }),
+      },
+    ]));
+  };
+
+  let groups: Record<string, SummaryGroup> | undefined;
+  if (groupBy) {
+    const previousGroup = previousSibling(groupBy, root.children);
+    const previousPeriod = PREVIOUS_PERIOD[groupBy];
+
+    // Subgroups by period are compared with the period before in the same
+    // group; subgroups of a period with themselves in the period before
+    const subgroupsOf = thenBy && ((key: string, node: Node) => build(
+      thenBy,
+      node.children,
+      PREVIOUS_PERIOD[thenBy] || !previousPeriod
+        ? previousSibling(thenBy, node.children)
+        : (subkey) => {
+          if (previousGroup(key) === null) return null;
+          const previous = root.children.get(previousPeriod(key))?.children.get(subkey);
+          return previous ? stats(previous.totals) : { total: 0 };
+        },
+    ));
+    groups = build(groupBy, root.children, previousGroup, subgroupsOf || undefined);
+  }
+
+  return {
+    totalExpenses: overall.count,
+    totalAmount: overall.total,
+    averageAmount: overall.average,
+    minAmount: overall.min,
+    maxAmount: overall.max,
+    currency: summaryCurrency,
+    ...(reportingCurrency && { missingRates }),
+    ...(mixed && { totalsByCurrency: overall.totalsByCurrency }),
+    dateRange: {
+      from: startDate || "All time",
+      to: endDate || "All time",
+    },
+    ...(groupBy && { groupedBy: groupBy, groups }),
+    ...(thenBy && { thenBy }),
+    ...(groupBy === "category" && groups && {
+      categoryTree: rollUpCategoryTotals(await listCategories(db, ledgerId), groups)
+        .map((row) => ({ ...row, subtotal: row.subtotal === null ? null : round(row.subtotal) })),
+    }),
+  };
+}
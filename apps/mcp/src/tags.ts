@@ -0,0 +1,387 @@
+import { drizzle } from "drizzle-orm/d1";
+import { Hono } from "hono";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { and, asc, eq, getTableColumns, inArray, isNull, sql, type SQL } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import { withAmount } from "@cf-hackathon/money";
+import * as schema from "./db/schema";
+import { completeExpenseEvents, recordExpenseEvents, requestActor } from "./history";
+import type { Actor, AppEnv, Database } from "./types";
+
+export const tagFiltersSchema = z.object({
+  tags: z.array(z.string()).optional().describe("Only expenses with at least one of these tags"),
+  allTags: z.array(z.string()).optional().describe("Only expenses with all of these tags"),
+  excludeTags: z.array(z.string()).optional().describe("Skip expenses with any of these tags"),
+});
+
+export type TagFilters = z.infer<typeof tagFiltersSchema>;
+
+const renameTagSchema = z.object({
+  name: z.string().min(1),
+});
+
+const mergeTagsSchema = z.object({
+  sources: z.array(z.string().min(1)).min(1).describe("Tags to merge away"),
+  target: z.string().min(1).describe("Tag to merge into (created if it doesn't exist)"),
+});
+
+const tagSchema = z.object({
+  id: z.number(),
+  ledgerId: z.number(),
+  name: z.string(),
+  createdAt: z.string(),
+});
+
+/**
+ * Trims tag names and drops blanks and duplicates.
+ */
+export function normalizeTags(names: string[]) {
+  return [...new Set(names.map((name) => name.trim()).filter((name) => name !== ""))];
+}
+
+// Drizzle leaves columns unqualified in single-table queries, which would make
+// `id` inside the correlated subqueries below resolve to `tags.id`
+const outerExpenseId = sql`${sql.identifier("expenses")}.${sql.identifier("id")}`;
+
+/**
+ * Every expense column plus its tag names, aggregated from `expense_tags` so
+ * callers keep getting the `tags: string[]` shape of the old JSON column.
+ */
+export const expenseColumns = {
+  ...getTableColumns(schema.expenses),
+  tags: sql<string[]>`(
+    select coalesce(json_group_array(${schema.tags.name}), '[]')
+    from ${schema.expenseTags}
+    inner join ${schema.tags} on ${schema.tags.id} = ${schema.expenseTags.tagId}
+    where ${schema.expenseTags.expenseId} = ${outerExpenseId}
+  )`.mapWith((value: string) => JSON.parse(value) as string[]),
+};
+
+// Leaves out expenses in the trash. Queries on expenses need it unless they
+// are about the trash, or keep deleted expenses consistent for a restore.
+export const notDeleted = isNull(schema.expenses.deletedAt);
+
+export type ExpenseWithTags = typeof schema.expenses.$inferSelect & { tags: string[]; amount: number };
+
+function taggedWith(names: string[]) {
+  return sql`select 1 from ${schema.expenseTags}
+    inner join ${schema.tags} on ${schema.tags.id} = ${schema.expenseTags.tagId}
+    where ${schema.expenseTags.expenseId} = ${outerExpenseId} and ${inArray(schema.tags.name, names)}`;
+}
+
+/**
+ * SQL conditions on `expenses` for any-of / all-of / none-of tag filters, so
+ * they apply before paging rather than to an already-paged result.
+ */
+export function tagConditions({ tags, allTags, excludeTags }: TagFilters) {
+  const conditions: SQL[] = [];
+
+  const anyOf = normalizeTags(tags ?? []);
+  if (anyOf.length > 0) {
+    conditions.push(sql`exists (${taggedWith(anyOf)})`);
+  }
+
+  const allOf = normalizeTags(allTags ?? []);
+  if (allOf.length > 0) {
+    conditions.push(sql`(select count(*) from (${taggedWith(allOf)})) = ${allOf.length}`);
+  }
+
+  const noneOf = normalizeTags(excludeTags ?? []);
+  if (noneOf.length > 0) {
+    conditions.push(sql`not exists (${taggedWith(noneOf)})`);
+  }
+
+  return conditions;
+}
+
+/**
+ * Batch statements that attach `names` to every expense in the ledger matching
+ * `where`, creating missing tags first. Existing links are left in place.
+ */
+export function linkTagsStatements(db: Database, ledgerId: number, names: string[], where: SQL) {
+  const tagNames = normalizeTags(names);
+  if (tagNames.length === 0) {
+    return [];
+  }
+
+  const statements: BatchItem<"sqlite">[] = [
+    db.insert(schema.tags)
+      .values(tagNames.map((name) => ({ ledgerId, name })))
+      .onConflictDoNothing(),
+    db.insert(schema.expenseTags)
+      .select((qb) => qb.select({ expenseId: schema.expenses.id, tagId: schema.tags.id })
+        .from(schema.expenses)
+        .innerJoin(schema.tags, and(
+          eq(schema.tags.ledgerId, schema.expenses.ledgerId),
+          inArray(schema.tags.name, tagNames),
+        ))
+        .where(and(eq(schema.expenses.ledgerId, ledgerId), where)))
+      .onConflictDoNothing(),
+  ];
+  return statements;
+}
+
+/**
+ * Batch statements that replace the tags of a single expense.
+ */
+export function setExpenseTagsStatements(db: Database, ledgerId: number, expenseId: number, names: string[]) {
+  return [
+    db.delete(schema.expenseTags).where(eq(schema.expenseTags.expenseId, expenseId)),
+    ...linkTagsStatements(db, ledgerId, names, eq(schema.expenses.id, expenseId)),
+  ];
+}
+
+export async function getExpenseWithTags(db: Database, ledgerId: number, expenseId: number) {
+  const [expense] = await db.select(expenseColumns)
+    .from(schema.expenses)
+    .where(and(eq(schema.expenses.id, expenseId), eq(schema.expenses.ledgerId, ledgerId), notDeleted));
+  return expense && withAmount(expense);
+}
+
+export async function listTags(db: Database, ledgerId: number) {
+  return db.select({
+    id: schema.tags.id,
+    name: schema.tags.name,
+    expenseCount: sql<number>`count(${schema.expenses.id})`,
+  })
+    .from(schema.tags)
+    .leftJoin(schema.expenseTags, eq(schema.expenseTags.tagId, schema.tags.id))
+    .leftJoin(schema.expenses, and(eq(schema.expenses.id, schema.expenseTags.expenseId), notDeleted))
+    .where(eq(schema.tags.ledgerId, ledgerId))
+    .groupBy(schema.tags.id)
+    .orderBy(asc(schema.tags.name));
+}
+
+async function findTag(db: Database, ledgerId: number, name: string) {
+  const [tag] = await db.select()
+    .from(schema.tags)
+    .where(and(eq(schema.tags.ledgerId, ledgerId), eq(schema.tags.name, name.trim())));
+  return tag;
+}
+
+/**
+ * Renames a tag on every expense that carries it. Renaming onto a tag that
+ * already exists is refused; that is what `mergeTags` is for.
+ */
+export async function renameTag(db: Database, ledgerId: number, from: string, to: string, actor: Actor) {
+  const tag = await findTag(db, ledgerId, from);
+  if (!tag) {
+    throw new Error(`Tag "${from}" not found`);
+  }
+
+  const name = to.trim();
+  if (name === "") {
+    throw new Error("Tag name cannot be empty");
+  }
+
+  const existing = await findTag(db, ledgerId, name);
+  if (existing && existing.id !== tag.id) {
+    throw new Error(`Tag "${name}" already exists; merge the tags instead`);
+  }
+
+  const taggedExpenses = db.select({ expenseId: schema.expenseTags.expenseId })
+    .from(schema.expenseTags)
+    .where(eq(schema.expenseTags.tagId, tag.id));
+
+  const [, [renamed]] = await db.batch([
+    recordExpenseEvents(db, actor, "update", inArray(schema.expenses.id, taggedExpenses)),
+    db.update(schema.tags)
+      .set({ name })
+      .where(eq(schema.tags.id, tag.id))
+      .returning(),
+    completeExpenseEvents(db),
+  ]);
+  return renamed;
+}
+
+/**
+ * Moves every expense tagged with one of `sources` onto `target` (creating it
+ * if needed) and deletes the source tags, in a single batch.
+ */
+export async function mergeTags(db: Database, ledgerId: number, sources: string[], target: string, actor: Actor) {
+  const targetName = target.trim();
+  const sourceNames = normalizeTags(sources).filter((name) => name !== targetName);
+  if (sourceNames.length === 0) {
+    throw new Error("Provide at least one source tag other than the target");
+  }
+
+  const sourceTags = await db.select()
+    .from(schema.tags)
+    .where(and(eq(schema.tags.ledgerId, ledgerId), inArray(schema.tags.name, sourceNames)));
+
+  const missing = sourceNames.filter((name) => !sourceTags.some((tag) => tag.name === name));
+  if (missing.length > 0) {
+    throw new Error(`Tags not found: ${missing.join(", ")}`);
+  }
+
+  const sourceIds = sourceTags.map((tag) => tag.id);
+  const taggedExpenses = db.select({ expenseId: schema.expenseTags.expenseId })
+    .from(schema.expenseTags)
+    .where(inArray(schema.expenseTags.tagId, sourceIds));
+
+  const [first, ...rest]: BatchItem<"sqlite">[] = [
+    recordExpenseEvents(db, actor, "update", inArray(schema.expenses.id, taggedExpenses)),
+    ...linkTagsStatements(db, ledgerId, [targetName], inArray(schema.expenses.id, taggedExpenses)),
+    // Links to the source tags go with them (ON DELETE CASCADE)
+    db.delete(schema.tags).where(inArray(schema.tags.id, sourceIds)),
+    completeExpenseEvents(db),
+  ];
+  await db.batch([first, ...rest]);
+
+  return { merged: sourceNames, into: await findTag(db, ledgerId, targetName) };
+}
+
+/**
+ * Registers the tag tools on an MCP server. Returns the tools that mutate
+ * data so the caller can disable them for read-only credentials.
+ */
+export function registerTagTools(server: McpServer, db: Database, ledgerId: number, actor: Actor): RegisteredTool[] {
+  server.registerTool(
+    "listTags",
+    {
+      description: "List all tags with the number of expenses carrying each",
+      outputSchema: {
+        tags: z.array(z.object({ id: z.number(), name: z.string(), expenseCount: z.number() })),
+      },
+    },
+    async () => {
+      try {
+        const tags = await listTags(db, ledgerId);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Found ${tags.length} tags`,
+            },
+          ],
+          structuredContent: { tags },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error retrieving tags: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  const renameTagTool = server.registerTool(
+    "renameTag",
+    {
+      description: "Rename a tag on every expense that carries it",
+      inputSchema: {
+        from: z.string().min(1).describe("Current tag name"),
+        to: z.string().min(1).describe("New tag name (must not already exist; use mergeTags otherwise)"),
+      },
+      outputSchema: { tag: tagSchema },
+    },
+    async ({ from, to }) => {
+      try {
+        const tag = await renameTag(db, ledgerId, from, to, actor);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Tag "${from}" renamed to "${tag.name}"`,
+            },
+          ],
+          structuredContent: { tag },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error renaming tag: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  const mergeTagsTool = server.registerTool(
+    "mergeTags",
+    {
+      description: "Merge one or more tags into a target tag, re-tagging their expenses and deleting the source tags",
+      inputSchema: mergeTagsSchema.shape,
+      outputSchema: { merged: z.array(z.string()), into: tagSchema },
+    },
+    async ({ sources, target }) => {
+      try {
+        const result = await mergeTags(db, ledgerId, sources, target, actor);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Merged ${result.merged.join(", ")} into "${result.into.name}"`,
+            },
+          ],
+          structuredContent: result,
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error merging tags: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  return [renameTagTool, mergeTagsTool];
+}
+
+export const tagRoutes = new Hono<AppEnv>();
+
+tagRoutes.get("/", async (c) => {
+  const db = drizzle(c.env.DB);
+  const tags = await listTags(db, c.get("ledgerId"));
+  return c.json({ tags });
+});
+
+tagRoutes.patch("/:name", async (c) => {
+  const db = drizzle(c.env.DB);
+  const data = await c.req.json();
+
+  try {
+    const { name } = renameTagSchema.parse(data);
+    const tag = await renameTag(db, c.get("ledgerId"), c.req.param("name"), name, requestActor(c, "rest"));
+    return c.json({ tag });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: "Validation error", details: error.errors }, 400);
+    }
+    return c.json({ error: error instanceof Error ? error.message : "Failed to rename tag" }, 400);
+  }
+});
+
+tagRoutes.post("/merge", async (c) => {
+  const db = drizzle(c.env.DB);
+  const data = await c.req.json();
+
+  try {
+    const { sources, target } = mergeTagsSchema.parse(data);
+    const result = await mergeTags(db, c.get("ledgerId"), sources, target, requestActor(c, "rest"));
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return c.json({ error: "Validation error", details: error.errors }, 400);
+    }
+    return c.json({ error: error instanceof Error ? error.message : "Failed to merge tags" }, 400);
+  }
+});
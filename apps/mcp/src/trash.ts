@@ -0,0 +1,229 @@
+import { drizzle } from "drizzle-orm/d1";
+import { Hono } from "hono";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { and, desc, eq, inArray, isNotNull, lt } from "drizzle-orm";
+import { withAmount } from "@cf-hackathon/money";
+import * as schema from "./db/schema";
+import { expenseSchema } from "./expenses";
+import { completeExpenseEvents, recordExpenseEvents, requestActor } from "./history";
+import type { ExpensesChangedNotifier } from "./resources";
+import { expenseColumns, getExpenseWithTags, notDeleted } from "./tags";
+import type { Actor, AppEnv, Database } from "./types";
+
+// How long deleted expenses stay restorable when TRASH_RETENTION_DAYS isn't set
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// D1 allows at most 100 bound parameters per statement
+const PURGE_BATCH_SIZE = 90;
+
+export const listDeletedExpensesSchema = z.object({
+  limit: z.coerce.number().int().positive().max(200).default(50).describe("Limit results"),
+});
+
+export const restoreExpenseSchema = z.object({
+  id: z.number().describe("ID of the deleted expense to restore"),
+});
+
+const deletedExpenseSchema = expenseSchema.extend({
+  deletedAt: z.string(),
+});
+
+/**
+ * Moves an expense to the trash. Returns the expense, or undefined if it
+ * doesn't exist or is already in the trash.
+ */
+export async function trashExpense(db: Database, ledgerId: number, id: number, actor: Actor) {
+  const where = and(eq(schema.expenses.id, id), eq(schema.expenses.ledgerId, ledgerId), notDeleted)!;
+  const [, [expense]] = await db.batch([
+    recordExpenseEvents(db, actor, "delete", where),
+    db.update(schema.expenses)
+      .set({ deletedAt: new Date().toISOString() })
+      .where(where)
+      .returning(),
+    completeExpenseEvents(db),
+  ]);
+  return expense && withAmount(expense);
+}
+
+/**
+ * Takes an expense out of the trash, with its tags, splits and receipt.
+ * Returns undefined if the trash doesn't have it.
+ */
+export async function restoreExpense(db: Database, ledgerId: number, id: number, actor: Actor) {
+  const where = and(
+    eq(schema.expenses.id, id),
+    eq(schema.expenses.ledgerId, ledgerId),
+    isNotNull(schema.expenses.deletedAt),
+  )!;
+  const [, [restored]] = await db.batch([
+    recordExpenseEvents(db, actor, "restore", where),
+    db.update(schema.expenses)
+      .set({ deletedAt: null })
+      .where(where)
+      .returning({ id: schema.expenses.id }),
+    completeExpenseEvents(db),
+  ]);
+  return restored && getExpenseWithTags(db, ledgerId, restored.id);
+}
+
+/**
+ * Lists the ledger's deleted expenses, most recently deleted first
+ */
+export async function listDeletedExpenses(db: Database, ledgerId: number, limit: number) {
+  const expenses = await db.select(expenseColumns)
+    .from(schema.expenses)
+    .where(and(eq(schema.expenses.ledgerId, ledgerId), isNotNull(schema.expenses.deletedAt)))
+    .orderBy(desc(schema.expenses.deletedAt))
+    .limit(limit);
+  return expenses.map((expense) => ({ ...withAmount(expense), deletedAt: expense.deletedAt! }));
+}
+
+/**
+ * Permanently deletes expenses that have been in the trash for longer than
+ * `retentionDays`, along with their receipt files. Runs from the cron trigger.
+ */
+export async function purgeDeletedExpenses(db: Database, bucket: R2Bucket, now: Date, retentionDays: number) {
+  const cutoff = new Date(now.getTime() - retentionDays * DAY_MS).toISOString();
+
+  while (true) {
+    const expired = await db.select({ id: schema.expenses.id })
+      .from(schema.expenses)
+      .where(lt(schema.expenses.deletedAt, cutoff))
+      .limit(PURGE_BATCH_SIZE);
+    if (expired.length === 0) return;
+
+    const ids = expired.map((expense) => expense.id);
+    const receipts = await db.select({ objectKey: schema.receipts.objectKey })
+      .from(schema.receipts)
+      .where(inArray(schema.receipts.expenseId, ids));
+
+    // Splits, tags and receipt rows go with the expenses (ON DELETE CASCADE),
+    // the receipt files don't
+    await db.delete(schema.expenses).where(inArray(schema.expenses.id, ids));
+    if (receipts.length > 0) {
+      await bucket.delete(receipts.map((receipt) => receipt.objectKey));
+    }
+  }
+}
+
+/**
+ * Registers the trash tools on an MCP server. Returns the tools that mutate
+ * data so the caller can disable them for read-only credentials.
+ */
+export function registerTrashTools(
+  server: McpServer,
+  db: Database,
+  ledgerId: number,
+  actor: Actor,
+  notifyExpensesChanged: ExpensesChangedNotifier,
+): RegisteredTool[] {
+  server.registerTool(
+    "listDeletedExpenses",
+    {
+      description: "List expenses in the trash, most recently deleted first. Deleted expenses can be restored until they are purged.",
+      inputSchema: listDeletedExpensesSchema.shape,
+      outputSchema: { expenses: z.array(deletedExpenseSchema) },
+    },
+    async ({ limit }) => {
+      try {
+        const expenses = await listDeletedExpenses(db, ledgerId, limit);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: expenses.length === 0
+                ? "The trash is empty"
+                : `Found ${expenses.length} deleted expenses:\n${expenses.map((expense) => `- ${expense.id}: ${expense.description}, ${expense.amount} ${expense.currency} (deleted ${expense.deletedAt})`).join("\n")}`,
+            },
+          ],
+          structuredContent: { expenses },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error listing deleted expenses: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  const restoreExpenseTool = server.registerTool(
+    "restoreExpense",
+    {
+      description: "Restore a deleted expense from the trash, with its tags, splits and receipt",
+      inputSchema: restoreExpenseSchema.shape,
+      outputSchema: { expense: expenseSchema },
+    },
+    async ({ id }) => {
+      try {
+        const expense = await restoreExpense(db, ledgerId, id, actor);
+
+        if (!expense) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `No deleted expense with ID ${id}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        await notifyExpensesChanged([expense], { created: true });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Expense ${id} restored: ${expense.description}`,
+            },
+          ],
+          structuredContent: { expense },
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error restoring expense: ${error instanceof Error ? error.message : "Unknown error"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  return [restoreExpenseTool];
+}
+
+export const trashRoutes = new Hono<AppEnv>();
+
+trashRoutes.get("/", async (c) => {
+  const db = drizzle(c.env.DB);
+  const query = listDeletedExpensesSchema.safeParse(c.req.query());
+
+  if (!query.success) {
+    return c.json({ error: "Validation error", details: query.error.errors }, 400);
+  }
+
+  return c.json({ expenses: await listDeletedExpenses(db, c.get("ledgerId"), query.data.limit) });
+});
+
+trashRoutes.post("/:id/restore", async (c) => {
+  const db = drizzle(c.env.DB);
+  const expense = await restoreExpense(db, c.get("ledgerId"), Number.parseInt(c.req.param("id")), requestActor(c, "rest"));
+
+  if (!expense) {
+    return c.json({ error: "Deleted expense not found" }, 404);
+  }
+  return c.json({ expense });
+});
@@ -0,0 +1,46 @@
+import type { DrizzleD1Database } from "drizzle-orm/d1";
+import type { McpSession, StreamableMcpSession } from "./sessions";
+
+export type Bindings = {
+  DB: D1Database;
+  // Receipt files, keyed by `ledgers/<ledgerId>/receipts/<uuid>`; see the `receipts` table
+  RECEIPTS: R2Bucket;
+  // One object per legacy HTTP+SSE MCP session
+  MCP_SESSIONS: DurableObjectNamespace<McpSession>;
+  // One object per Streamable HTTP MCP session, keyed by `Mcp-Session-Id`
+  MCP_STREAMABLE_SESSIONS: DurableObjectNamespace<StreamableMcpSession>;
+  // Bootstrap credential for managing users, ledgers and API keys
+  ADMIN_TOKEN?: string;
+  // Days a deleted expense stays in the trash before the cron trigger purges it
+  TRASH_RETENTION_DAYS?: string;
+};
+
+export type Scope = "read" | "write";
+
+// Who changed an expense and through what, for the expense history; see src/history.ts
+export type Actor = {
+  // "user:<id>", "admin" for the admin token, or "system" for scheduled jobs
+  name: string;
+  source: "rest" | "mcp" | "agent" | "system";
+  // The agent chat session behind a request made with an agent key, as the
+  // agent named it
+  sessionId: string | null;
+};
+
+export type Variables = {
+  // Authenticated user, or null when the request uses the admin token
+  userId: number | null;
+  isAdmin: boolean;
+  scope: Scope;
+  // Whether the request uses a key issued to the chat agent
+  isAgent: boolean;
+  // Ledger the current request is scoped to, set by the `resolveLedger` middleware
+  ledgerId: number;
+};
+
+export type AppEnv = {
+  Bindings: Bindings;
+  Variables: Variables;
+};
+
+export type Database = DrizzleD1Database;
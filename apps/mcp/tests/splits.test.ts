@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { settleBalances } from "../src/splits";
+
+type Transfer = ReturnType<typeof settleBalances>[number];
+
+// Balances left once every transfer is made, without the settled ones
+function remaining(balances: Map<number, number>, transfers: Transfer[]) {
+  const left = new Map(balances);
+  for (const { from, to, minor } of transfers) {
+    expect(minor).toBeGreaterThan(0);
+    left.set(from, left.get(from)! + minor);
+    left.set(to, left.get(to)! - minor);
+  }
+  return [...left].filter(([, minor]) => minor !== 0);
+}
+
+describe("settleBalances", () => {
+  it("settles groups whose balances sum to zero on their own", () => {
+    // Paying the largest debt to the largest credit first takes 5 transfers;
+    // settling 4 and 6 apart from the rest takes 4
+    const balances = new Map([[1, -800], [2, 600], [3, -200], [4, 300], [5, 400], [6, -300]]);
+    const transfers = settleBalances(balances);
+
+    expect(remaining(balances, transfers)).toEqual([]);
+    expect(transfers).toHaveLength(4);
+    expect(transfers).toContainEqual({ from: 6, to: 4, minor: 300 });
+  });
+
+  it("takes at most one transfer fewer than the people involved", () => {
+    // Only everyone together sums to zero, so nothing beats n - 1
+    const balances = new Map([[1, 100], [2, 200], [3, 400], [4, 800], [5, 1600], [6, -3100]]);
+    const transfers = settleBalances(balances);
+
+    expect(remaining(balances, transfers)).toEqual([]);
+    expect(transfers).toHaveLength(5);
+  });
+
+  it("leaves out people who are already settled", () => {
+    const balances = new Map([[1, 0], [2, 250], [3, -250], [4, 0]]);
+
+    expect(settleBalances(balances)).toEqual([{ from: 3, to: 2, minor: 250 }]);
+    expect(settleBalances(new Map([[1, 0]]))).toEqual([]);
+  });
+
+  it("falls back to a greedy pass for more than 16 people", () => {
+    // 40 people would mean 2^40 subsets for the exact search
+    const balances = new Map<number, number>();
+    for (let id = 1; id <= 20; id++) {
+      balances.set(id, id * 100);
+      balances.set(100 + id, id === 20 ? -2000 - 7 * 19 : -id * 100 + 7);
+    }
+
+    const transfers = settleBalances(balances);
+
+    expect(remaining(balances, transfers)).toEqual([]);
+    expect(transfers.length).toBeLessThanOrEqual(balances.size - 1);
+  });
+});
@@ -0,0 +1,90 @@
+// Money helpers shared by the MCP server and the agent. Amounts are stored as
+// integers in the currency's minor unit (cents for USD, yen for JPY, fils for
+// BHD) and only turned into decimals at the edges.
+
+/**
+ * ISO 4217 currencies whose minor unit isn't a hundredth. This is the list of
+ * record: the MCP server's `currency_exponents` table, which lets SQL convert
+ * amounts, is a copy of it, and a change here needs a migration that brings
+ * the table in line.
+ */
+export const CURRENCY_EXPONENTS: Readonly<Record<string, number>> = {
+  BHD: 3, BIF: 0, CLF: 4, CLP: 0, DJF: 0, GNF: 0, IQD: 3, ISK: 0, JOD: 3,
+  JPY: 0, KMF: 0, KRW: 0, KWD: 3, LYD: 3, OMR: 3, PYG: 0, RWF: 0, TND: 3,
+  UGX: 0, UYI: 0, UYW: 4, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+};
+
+const DEFAULT_EXPONENT = 2;
+
+/**
+ * Number of decimals in the currency's minor unit
+ */
+export function currencyExponent(currency: string) {
+  return CURRENCY_EXPONENTS[currency.toUpperCase()] ?? DEFAULT_EXPONENT;
+}
+
+/**
+ * Rounds a decimal amount to the nearest minor unit. `toPrecision` first
+ * drops the float noise that would otherwise round 1.005 down to 100 cents.
+ */
+export function toMinorUnits(amount: number, currency: string) {
+  const scaled = amount * 10 ** currencyExponent(currency);
+  return Math.round(Number(scaled.toPrecision(15)));
+}
+
+export function fromMinorUnits(minor: number, currency: string) {
+  return minor / 10 ** currencyExponent(currency);
+}
+
+/**
+ * Parses an amount given as a number or a string like "1,234.50" into minor
+ * units, refusing more decimals than the currency has (12.5 JPY, 1.005 USD).
+ */
+export function parseMoney(value: number | string, currency: string) {
+  const exponent = currencyExponent(currency);
+
+  if (typeof value === "number") {
+    const minor = toMinorUnits(value, currency);
+    if (!Number.isFinite(value) || Math.abs(fromMinorUnits(minor, currency) - value) > 1e-9) {
+      throw new Error(`${value} is not a valid ${currency.toUpperCase()} amount (at most ${exponent} decimals)`);
+    }
+    return minor;
+  }
+
+  const match = value.trim().replace(/[,\s]/g, "").match(/^(-?)(\d+)(?:\.(\d*))?$/);
+  const decimals = match?.[3] ?? "";
+  if (!match || decimals.replace(/0+$/, "").length > exponent) {
+    throw new Error(`"${value}" is not a valid ${currency.toUpperCase()} amount (at most ${exponent} decimals)`);
+  }
+
+  const minor = Number(match[2] + decimals.padEnd(exponent, "0").slice(0, exponent));
+  return match[1] ? -minor : minor;
+}
+
+/**
+ * Formats minor units with the currency's own number of decimals, e.g.
+ * "$1,234.50", "¥1,235" or "BHD 1.250".
+ */
+export function formatMoney(minor: number, currency: string, locale = "en-US") {
+  const exponent = currencyExponent(currency);
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency: currency.toUpperCase(),
+    minimumFractionDigits: exponent,
+    maximumFractionDigits: exponent,
+  }).format(fromMinorUnits(minor, currency));
+}
+
+/**
+ * Formats a decimal amount, rounded to the currency's minor unit
+ */
+export function formatAmount(amount: number, currency: string, locale = "en-US") {
+  return formatMoney(toMinorUnits(amount, currency), currency, locale);
+}
+
+/**
+ * Adds the decimal `amount` to a row stored in minor units
+ */
+export function withAmount<T extends { amountMinor: number; currency: string }>(row: T) {
+  return { ...row, amount: fromMinorUnits(row.amountMinor, row.currency) };
+}
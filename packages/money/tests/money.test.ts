@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatAmount,
+  formatMoney,
+  fromMinorUnits,
+  parseMoney,
+  toMinorUnits,
+} from "../src/money";
+
+describe("toMinorUnits", () => {
+  it("uses the currency's number of decimals", () => {
+    expect(toMinorUnits(12.34, "USD")).toBe(1234);
+    expect(toMinorUnits(1250, "JPY")).toBe(1250);
+    expect(toMinorUnits(1.25, "BHD")).toBe(1250);
+  });
+
+  it("rounds halves up despite float noise", () => {
+    expect(toMinorUnits(1.005, "USD")).toBe(101);
+    expect(toMinorUnits(0.1 + 0.2, "USD")).toBe(30);
+  });
+
+  it("round-trips through fromMinorUnits", () => {
+    expect(fromMinorUnits(toMinorUnits(19.99, "EUR"), "EUR")).toBe(19.99);
+  });
+});
+
+describe("parseMoney", () => {
+  it("parses numbers and strings", () => {
+    expect(parseMoney(12.5, "USD")).toBe(1250);
+    expect(parseMoney("1,234.5", "USD")).toBe(123450);
+    expect(parseMoney("-3", "JPY")).toBe(-3);
+  });
+
+  it("rejects more decimals than the currency has", () => {
+    expect(() => parseMoney(12.5, "JPY")).toThrow(
+      "12.5 is not a valid JPY amount (at most 0 decimals)"
+    );
+    expect(() => parseMoney("1.005", "USD")).toThrow(/at most 2 decimals/);
+    expect(parseMoney("1.250", "USD")).toBe(125);
+  });
+
+  it("rejects text that isn't an amount", () => {
+    expect(() => parseMoney("ten", "USD")).toThrow(/not a valid USD amount/);
+  });
+});
+
+describe("formatMoney", () => {
+  it("formats with the currency's own decimals", () => {
+    expect(formatMoney(123450, "USD")).toBe("$1,234.50");
+    expect(formatMoney(1235, "JPY")).toBe("¥1,235");
+    // Intl puts a non-breaking space after currency codes
+    expect(formatMoney(1250, "BHD")).toMatch(/^BHD\s1\.250$/);
+  });
+
+  it("formats decimal amounts", () => {
+    expect(formatAmount(4.5, "USD")).toBe("$4.50");
+  });
+});